@@ -1,5 +1,6 @@
 // ===== src/app.ts - COMPLETE FIXED VERSION FOR RAILWAY =====
 import express, { Request, Response, NextFunction } from "express";
+import { extname } from "path";
 import dotenv from "dotenv";
 import cors from "cors";
 import cookieParser from "cookie-parser";
@@ -7,8 +8,10 @@ import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import { connectDB, prisma, checkDBHealth } from "./config/db";
 import { env, validateEnv } from "./config/env";
+import { setupPassport, getAvailableAuthMethods } from "./config/passport";
 import routes from "./routes";
 import { errorHandler } from "./utils/errorHandler";
+import { IMAGE_TYPES_BY_EXTENSION } from "./middlewares/upload.middleware";
 import { logger } from "./utils/logger";
 
 console.log("🚀 Starting NewticaX API...");
@@ -290,8 +293,8 @@ app.use(
 // CRITICAL: Cookie parser with secret
 app.use(cookieParser(env.COOKIE_SECRET));
 
-// NO PASSPORT - JWT ONLY AUTHENTICATION
-console.log("ℹ️ Using JWT-only authentication (Passport disabled for Railway)");
+// JWT authentication, plus OAuth providers that have credentials configured
+setupPassport();
 
 // Auth debug headers middleware for Railway debugging
 const authDebugHeaders = (req: Request, res: Response, next: NextFunction) => {
@@ -351,9 +354,19 @@ app.use(
     maxAge: "1d",
     etag: true,
     lastModified: true,
-    setHeaders: (res, path) => {
+    setHeaders: (res, filePath) => {
       res.setHeader("Access-Control-Allow-Origin", "*");
       res.setHeader("Cross-Origin-Resource-Policy", "cross-origin");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+
+      // Only image types are rendered inline; anything else is a download
+      const imageType = IMAGE_TYPES_BY_EXTENSION[extname(filePath).toLowerCase()];
+      if (imageType) {
+        res.setHeader("Content-Type", imageType);
+      } else {
+        res.setHeader("Content-Type", "application/octet-stream");
+        res.setHeader("Content-Disposition", "attachment");
+      }
     },
   })
 );
@@ -393,7 +406,7 @@ app.get("/", (req: Request, res: Response) => {
       auth: "/api/auth",
     },
     features: {
-      auth: "JWT-only (Passport disabled)",
+      auth: getAvailableAuthMethods(),
       rateLimiting: "Active",
       cors: "Configured for cross-origin with credentials",
       database: "MongoDB Atlas",
@@ -439,7 +452,7 @@ app.get("/health", async (req: Request, res: Response) => {
       hasCookieSecret: !!env.COOKIE_SECRET,
       hasDatabaseUrl: !!env.DATABASE_URL,
       hasNewsApiKey: !!env.NEWS_API_KEY,
-      authMode: "JWT-only",
+      authMode: getAvailableAuthMethods().oauth ? "JWT + OAuth" : "JWT-only",
       trustProxy: true,
     },
   };
@@ -518,8 +531,8 @@ app.get("/api/docs", (req: Request, res: Response) => {
     message: "NewticaX API Documentation",
     version: "1.0.0",
     baseUrl: `${req.protocol}://${req.get("host")}/api`,
-    authentication: "JWT Bearer Token or Cookie",
-    note: "OAuth/Social login disabled for Railway deployment",
+    authentication: "Short-lived JWT (Bearer or cookie) renewed via POST /api/auth/refresh",
+    authMethods: getAvailableAuthMethods(),
     railway: {
       deployment: process.env.RAILWAY_DEPLOYMENT_ID,
       environment: process.env.RAILWAY_ENVIRONMENT,
@@ -538,22 +551,92 @@ app.get("/api/docs", (req: Request, res: Response) => {
         login: "POST /api/auth/login",
         logout: "POST /api/auth/logout",
         me: "GET /api/auth/me",
+        refresh: "POST /api/auth/refresh (rotates the refreshToken cookie)",
+        sessions: "GET /api/auth/sessions",
+        revokeSession: "DELETE /api/auth/sessions/:id",
+        revokeOtherSessions: "DELETE /api/auth/sessions",
         profile: "PUT /api/auth/profile",
         password: "PUT /api/auth/password",
         preferences: "PUT /api/auth/preferences",
+        forgotPassword: "POST /api/auth/forgot-password",
+        resetPassword: "POST /api/auth/reset-password",
+        verifyEmail: "POST /api/auth/verify-email",
+        resendVerification: "POST /api/auth/resend-verification",
+        twoFactorLogin: "POST /api/auth/login/2fa { challengeToken, code } (after login returns requiresTwoFactor; OAuth logins send the challenge cookie instead)",
+        twoFactorStatus: "GET /api/auth/2fa",
+        twoFactorSetup: "POST /api/auth/2fa/setup -> { secret, otpauthUrl }",
+        twoFactorConfirm: "POST /api/auth/2fa/confirm { code } -> recovery codes",
+        twoFactorDisable: "POST /api/auth/2fa/disable { password, code }",
+        twoFactorRecoveryCodes: "POST /api/auth/2fa/recovery-codes { code }",
+        oauthGoogle: "GET /api/auth/google?redirect=/path (browser redirect)",
+        oauthGithub: "GET /api/auth/github?redirect=/path (browser redirect)",
+        oauthCallback: "GET /api/auth/callback/:provider -> FRONTEND_URL/auth/callback?status=",
       },
       articles: {
         list: "GET /api/articles",
         get: "GET /api/articles/:slug",
+        related: "GET /api/articles/:slug/related?limit= (shared tags, category and text similarity)",
         create: "POST /api/articles",
         trending: "GET /api/articles/trending",
         breaking: "GET /api/articles/breaking",
-        search: "GET /api/articles/search",
+        recommended: "GET /api/articles/recommended?limit= (scored, with reasons)",
+        notInterested: "POST|DELETE /api/articles/:id/not-interested",
+        search: "GET /api/articles/search?q=&category=&tag=&author=<username, any credited contributor>",
+        manage: "GET /api/articles/manage?status=DRAFT|IN_REVIEW|APPROVED|SCHEDULED|PUBLISHED|ARCHIVED&authorId=&q=",
+        changeStatus: "PATCH /api/articles/:id/status { status, comment?, scheduledAt? }",
+        reviews: "GET|POST /api/articles/:id/reviews",
+        revisions: "GET /api/articles/:id/revisions",
+        revisionDiff: "GET /api/articles/:id/revisions/diff?from=&to=",
+        restoreRevision: "POST /api/articles/:id/revisions/:revisionId/restore",
+        contributors: "PUT /api/articles/:id/contributors { contributors: [{ userId, role: AUTHOR|CO_AUTHOR|PHOTOGRAPHER|EDITOR }] }",
       },
       admin: {
         dashboard: "GET /api/admin/dashboard",
         users: "GET /api/admin/users",
         categories: "GET /api/admin/categories",
+        articles: "GET /api/admin/articles?status=&authorId=&q=",
+        userLockStatus: "GET /api/admin/users/:id/lock",
+        unlockUser: "POST /api/admin/users/:id/unlock",
+        auditLogs: "GET /api/admin/audit-logs?userId=&action=&targetId=&targetType=&startDate=&endDate=&format=csv",
+        auditReport: "GET /api/admin/audit-logs/report?startDate=&endDate=",
+        uploadCleanup: "GET /api/admin/uploads/cleanup",
+        runUploadCleanup: "POST /api/admin/uploads/cleanup?dryRun=true",
+        trash: "GET /api/admin/trash?type=article|comment|user",
+        restoreFromTrash: "POST /api/admin/trash/:type/:id/restore",
+        purgeFromTrash: "DELETE /api/admin/trash/:type/:id",
+      },
+      users: {
+        profile: "GET /api/users/:username",
+        articles: "GET /api/users/:username/articles",
+        bookmarks: "GET /api/users/:username/bookmarks (hidden when activityPrivate)",
+        readingHistory: "GET /api/users/:username/reading-history (hidden when activityPrivate)",
+      },
+      follows: {
+        list: "GET /api/follows?type=author|category|tag",
+        follow: "POST /api/follows/:type/:targetId",
+        unfollow: "DELETE /api/follows/:type/:targetId",
+      },
+      feed: {
+        timeline: "GET /api/feed?cursor=&limit= (followed authors, categories and tags)",
+      },
+      trending: {
+        overview: "GET /api/trending?language=&limit= (articles, categories, tags and authors)",
+      },
+      notifications: {
+        list: "GET /api/notifications?cursor=&limit=&type=&unread=",
+        stream: "GET /api/notifications/stream (text/event-stream)",
+        unreadCount: "GET /api/notifications/unread-count",
+        markRead: "PATCH /api/notifications/:id/read",
+        markAllRead: "PATCH /api/notifications/read-all",
+        delete: "DELETE /api/notifications/:id",
+      },
+      media: {
+        uploadImage: "POST /api/media/images (multipart, field: image) - authors",
+        uploadAvatar: "POST /api/media/avatar (multipart, field: avatar)",
+        list: "GET /api/media?kind=ARTICLE_IMAGE|AVATAR&page=&limit=",
+        get: "GET /api/media/:id (includes usage)",
+        signedUrl: "GET /api/media/:id/signed-url?expiresIn=&variant=thumbnail|medium|large",
+        delete: "DELETE /api/media/:id (409 while referenced by articles)",
       },
     },
     troubleshooting: {
@@ -585,6 +668,8 @@ app.use("*", (req: Request, res: Response) => {
       "/api/auth/*",
       "/api/articles/*",
       "/api/admin/*",
+      "/api/notifications/*",
+      "/api/media/*",
     ],
     railway: {
       deployment: process.env.RAILWAY_DEPLOYMENT_ID,
@@ -601,6 +686,8 @@ const gracefulShutdown = async (signal: string) => {
   console.log(`Received ${signal}, shutting down gracefully...`);
 
   try {
+    const { NotificationService } = await import("./services/notification.service");
+    await NotificationService.shutdown();
     await prisma.$disconnect();
     console.log("Database connections closed");
     console.log("Graceful shutdown completed");
@@ -643,7 +730,7 @@ const startServer = async () => {
       console.log(`🎯 Frontend URL: ${env.FRONTEND_URL}`);
       console.log(`📋 Health check: /health`);
       console.log(`📚 API docs: /api/docs`);
-      console.log(`🔐 Auth mode: JWT-only (no Passport)`);
+      console.log(`🔐 Auth mode: ${getAvailableAuthMethods().oauth ? "JWT + OAuth" : "JWT-only"}`);
       console.log(`🚦 Rate limiting: Active`);
       console.log(`🌍 CORS: Configured for cross-origin`);
       console.log(`🍪 Cookies: Enabled with cross-origin support`);
@@ -678,6 +765,49 @@ const startServer = async () => {
           console.warn("⚠️ Admin service import failed:", error.message);
         });
         
+        // Start notification fan-out (Redis pub/sub or in-process)
+        import("./services/notification.service").then(({ NotificationService }) => {
+          NotificationService.initialize().catch(error => {
+            console.warn("⚠️ Notification service initialization failed:", error.message);
+          });
+        }).catch(error => {
+          console.warn("⚠️ Notification service import failed:", error.message);
+        });
+
+        // Publish scheduled articles when they are due
+        import("./services/publish-scheduler.service").then(({ startPublishScheduler }) => {
+          startPublishScheduler();
+          console.log("⏰ Publish scheduler started");
+        }).catch(error => {
+          console.warn("⚠️ Publish scheduler failed:", error.message);
+        });
+
+        // Start upload garbage collection (temp files, orphaned uploads, quarantine)
+        if (env.UPLOAD_CLEANUP_ENABLED) {
+          import("./services/upload-cleanup.service").then(({ startUploadCleanupJob }) => {
+            startUploadCleanupJob();
+            console.log("🧹 Upload cleanup job scheduled");
+          }).catch(error => {
+            console.warn("⚠️ Upload cleanup service failed:", error.message);
+          });
+        }
+
+        // Permanently delete trashed items past the retention period
+        import("./services/trash.service").then(({ startTrashPurgeJob }) => {
+          startTrashPurgeJob();
+          console.log(`🗑️ Trash purge job scheduled (retention ${env.TRASH_RETENTION_DAYS} days)`);
+        }).catch(error => {
+          console.warn("⚠️ Trash purge job failed:", error.message);
+        });
+
+        // Recompute engagement scores and the trending set
+        import("./services/trending.service").then(({ startTrendingJob }) => {
+          startTrendingJob();
+          console.log("📈 Trending job scheduled");
+        }).catch(error => {
+          console.warn("⚠️ Trending job failed:", error.message);
+        });
+
         // Start NewsAPI fetcher (optional)
         if (env.NEWS_API_KEY) {
           try {
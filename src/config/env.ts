@@ -17,6 +17,20 @@ export const env = {
   JWT_SECRET: process.env.JWT_SECRET || 'your-very-strong-jwt-secret-for-dev-env',
   COOKIE_SECRET: process.env.COOKIE_SECRET || 'your-very-strong-cookie-secret-for-dev-env',
   COOKIE_EXPIRES: parseInt(process.env.COOKIE_EXPIRES || (7 * 24 * 60 * 60 * 1000).toString(), 10),
+  ACCESS_TOKEN_EXPIRES: parseInt(process.env.ACCESS_TOKEN_EXPIRES || (15 * 60 * 1000).toString(), 10),
+  REFRESH_TOKEN_EXPIRES: parseInt(process.env.REFRESH_TOKEN_EXPIRES || process.env.COOKIE_EXPIRES || (7 * 24 * 60 * 60 * 1000).toString(), 10),
+  REFRESH_TOKEN_REMEMBER_EXPIRES: parseInt(process.env.REFRESH_TOKEN_REMEMBER_EXPIRES || (30 * 24 * 60 * 60 * 1000).toString(), 10),
+  PASSWORD_RESET_EXPIRES: parseInt(process.env.PASSWORD_RESET_EXPIRES || (60 * 60 * 1000).toString(), 10),
+  EMAIL_VERIFICATION_EXPIRES: parseInt(process.env.EMAIL_VERIFICATION_EXPIRES || (24 * 60 * 60 * 1000).toString(), 10),
+  REQUIRE_EMAIL_VERIFICATION: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+  TWO_FACTOR_CHALLENGE_EXPIRES: parseInt(process.env.TWO_FACTOR_CHALLENGE_EXPIRES || (5 * 60 * 1000).toString(), 10),
+  TWO_FACTOR_ENCRYPTION_KEY: process.env.TWO_FACTOR_ENCRYPTION_KEY || '',
+  TWO_FACTOR_ISSUER: process.env.TWO_FACTOR_ISSUER || 'NewticaX',
+  REQUIRE_ADMIN_2FA: process.env.REQUIRE_ADMIN_2FA === 'true',
+  ACCOUNT_LOCKOUT_THRESHOLD: parseInt(process.env.ACCOUNT_LOCKOUT_THRESHOLD || '5', 10),
+  ACCOUNT_LOCKOUT_WINDOW: parseInt(process.env.ACCOUNT_LOCKOUT_WINDOW || (15 * 60 * 1000).toString(), 10),
+  ACCOUNT_LOCKOUT_BASE_DURATION: parseInt(process.env.ACCOUNT_LOCKOUT_BASE_DURATION || (5 * 60 * 1000).toString(), 10),
+  ACCOUNT_LOCKOUT_MAX_DURATION: parseInt(process.env.ACCOUNT_LOCKOUT_MAX_DURATION || (24 * 60 * 60 * 1000).toString(), 10),
 
   // Database with Railway optimization
   DATABASE_URL: process.env.DATABASE_URL || '',
@@ -28,12 +42,19 @@ export const env = {
   NEWS_API_KEY: process.env.NEWS_API_KEY || '',
   NEWS_API_BASE_URL: process.env.NEWS_API_BASE_URL || 'https://newsapi.org/v2',
   
-  // OAuth Configuration (Disabled for Railway)
+  // OAuth Configuration (enabled per provider when client id/secret are set)
   GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID || '',
   GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || '',
   GITHUB_CLIENT_ID: process.env.GITHUB_CLIENT_ID || '',
   GITHUB_CLIENT_SECRET: process.env.GITHUB_CLIENT_SECRET || '',
   OAUTH_CALLBACK_URL: process.env.OAUTH_CALLBACK_URL || 'https://newticax-backend-production.up.railway.app/api/auth/callback', 
+  GOOGLE_AUTH_URL: process.env.GOOGLE_AUTH_URL || 'https://accounts.google.com/o/oauth2/v2/auth',
+  GOOGLE_TOKEN_URL: process.env.GOOGLE_TOKEN_URL || 'https://oauth2.googleapis.com/token',
+  GOOGLE_USERINFO_URL: process.env.GOOGLE_USERINFO_URL || 'https://openidconnect.googleapis.com/v1/userinfo',
+  GITHUB_AUTH_URL: process.env.GITHUB_AUTH_URL || 'https://github.com/login/oauth/authorize',
+  GITHUB_TOKEN_URL: process.env.GITHUB_TOKEN_URL || 'https://github.com/login/oauth/access_token',
+  GITHUB_USER_URL: process.env.GITHUB_USER_URL || 'https://api.github.com/user',
+  GITHUB_EMAILS_URL: process.env.GITHUB_EMAILS_URL || 'https://api.github.com/user/emails',
 
   // Admin User Configuration
   ADMIN_EMAIL: process.env.ADMIN_EMAIL || 'admin@newticax.com',
@@ -53,6 +74,20 @@ export const env = {
   // Upload Configuration
   MAX_FILE_SIZE: parseInt(process.env.MAX_FILE_SIZE || (5 * 1024 * 1024).toString(), 10),
   UPLOAD_DIR: process.env.UPLOAD_DIR || 'uploads',
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'local', // 'local' | 's3'
+  CDN_BASE_URL: process.env.CDN_BASE_URL || '',
+  SIGNED_URL_EXPIRES: parseInt(process.env.SIGNED_URL_EXPIRES || '900', 10), // seconds
+  UPLOAD_CLEANUP_ENABLED: process.env.UPLOAD_CLEANUP_ENABLED !== 'false',
+  UPLOAD_CLEANUP_INTERVAL: parseInt(process.env.UPLOAD_CLEANUP_INTERVAL || (6 * 60 * 60 * 1000).toString(), 10),
+
+  // S3-compatible storage (AWS S3, MinIO, R2...)
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true',
+  S3_PUBLIC_URL: process.env.S3_PUBLIC_URL || '',
 
   // Logging
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
@@ -66,6 +101,14 @@ export const env = {
   // Cache
   CACHE_TTL: parseInt(process.env.CACHE_TTL || '3600', 10),
   NEWS_CACHE_TTL: parseInt(process.env.NEWS_CACHE_TTL || '1800', 10),
+
+  // Background jobs
+  PUBLISH_SCHEDULER_INTERVAL: parseInt(process.env.PUBLISH_SCHEDULER_INTERVAL || (60 * 1000).toString(), 10),
+  TRASH_RETENTION_DAYS: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+  TRASH_PURGE_INTERVAL: parseInt(process.env.TRASH_PURGE_INTERVAL || (24 * 60 * 60 * 1000).toString(), 10),
+  TRENDING_INTERVAL: parseInt(process.env.TRENDING_INTERVAL || (15 * 60 * 1000).toString(), 10),
+  TRENDING_SIZE: parseInt(process.env.TRENDING_SIZE || '10', 10), // Computed trending articles per language
+  TRENDING_HALF_LIFE_HOURS: parseInt(process.env.TRENDING_HALF_LIFE_HOURS || '24', 10),
 };
 
 // Enhanced validation function for Railway
@@ -152,6 +195,11 @@ export const validateEnv = (): void => {
       domain: 'auto',
     });
     
+    // Local disk is wiped on every redeploy
+    if (env.STORAGE_DRIVER === 'local') {
+      warnings.push('STORAGE_DRIVER is local - uploads will be lost on redeploy. Use s3 in Railway');
+    }
+
     // Railway URL validation
     if (!process.env.RAILWAY_STATIC_URL) {
       warnings.push('RAILWAY_STATIC_URL not detected - may indicate Railway configuration issue');
@@ -163,6 +211,10 @@ export const validateEnv = (): void => {
     warnings.push('NEWS_API_KEY not set - news fetching will be disabled');
   }
 
+  if (env.STORAGE_DRIVER === 's3' && (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY)) {
+    errors.push('STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
   if (!env.SMTP_HOST) {
     warnings.push('Email service not configured - email features will be disabled');
   }
@@ -171,13 +223,13 @@ export const validateEnv = (): void => {
     warnings.push('Redis not configured - using in-memory cache fallback');
   }
 
-  // OAuth warnings (disabled for Railway)
+  // OAuth warnings
   if (!env.GOOGLE_CLIENT_ID || !env.GOOGLE_CLIENT_SECRET) {
-    warnings.push('Google OAuth not configured - social login disabled for Railway');
+    warnings.push('Google OAuth not configured - Google login disabled');
   }
 
   if (!env.GITHUB_CLIENT_ID || !env.GITHUB_CLIENT_SECRET) {
-    warnings.push('GitHub OAuth not configured - social login disabled for Railway');
+    warnings.push('GitHub OAuth not configured - GitHub login disabled');
   }
 
   // Log warnings
@@ -235,6 +287,6 @@ export const validateEnv = (): void => {
     console.log('  - SameSite: none (for cross-origin)');
     console.log('  - Secure: true');
     console.log('  - Database: MongoDB Atlas');
-    console.log('  - Authentication: JWT-only (no OAuth)');
+    console.log(`  - Authentication: JWT${env.GOOGLE_CLIENT_ID || env.GITHUB_CLIENT_ID ? ' + OAuth' : ' only'}`);
   }
 };
\ No newline at end of file
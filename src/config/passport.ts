@@ -1,46 +1,83 @@
-// Passport configuration disabled for Railway deployment
-// This file provides minimal compatibility without requiring passport dependencies
+// OAuth provider configuration (authorization-code flow with PKCE).
+// The flow itself lives in services/oauth.service.ts; no passport dependency is needed.
 
+import { Provider } from '@prisma/client';
+import { env } from './env';
 import { logger } from '../utils/logger';
 
-// Dummy export to prevent import errors
-export const setupPassport = (): void => {
-  logger.info('🔐 Passport setup skipped - OAuth disabled for Railway deployment');
-  logger.info('ℹ️ Using JWT-only authentication');
-};
+export type OAuthProviderName = 'google' | 'github';
 
-// Mock passport object for compatibility
-export const passport = {
-  use: () => {
-    logger.warn('Passport.use() called but OAuth is disabled');
-  },
-  serializeUser: () => {
-    logger.warn('Passport.serializeUser() called but OAuth is disabled');
-  },
-  deserializeUser: () => {
-    logger.warn('Passport.deserializeUser() called but OAuth is disabled');
+export interface OAuthProviderConfig {
+  name: OAuthProviderName;
+  provider: Provider;
+  clientId: string;
+  clientSecret: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  userInfoUrl: string;
+  emailsUrl?: string; // GitHub only returns private emails from a separate endpoint
+  scope: string;
+}
+
+// Endpoints can be overridden to point at a local mock OAuth server
+export const oauthProviders: Record<OAuthProviderName, OAuthProviderConfig> = {
+  google: {
+    name: 'google',
+    provider: Provider.GOOGLE,
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+    authorizeUrl: env.GOOGLE_AUTH_URL,
+    tokenUrl: env.GOOGLE_TOKEN_URL,
+    userInfoUrl: env.GOOGLE_USERINFO_URL,
+    scope: 'openid email profile',
   },
-  initialize: () => {
-    return (req: any, res: any, next: any) => {
-      logger.debug('Passport middleware skipped');
-      next();
-    };
+  github: {
+    name: 'github',
+    provider: Provider.GITHUB,
+    clientId: env.GITHUB_CLIENT_ID,
+    clientSecret: env.GITHUB_CLIENT_SECRET,
+    authorizeUrl: env.GITHUB_AUTH_URL,
+    tokenUrl: env.GITHUB_TOKEN_URL,
+    userInfoUrl: env.GITHUB_USER_URL,
+    emailsUrl: env.GITHUB_EMAILS_URL,
+    scope: 'read:user user:email',
   },
-  session: () => {
-    return (req: any, res: any, next: any) => {
-      logger.debug('Passport session middleware skipped');
-      next();
-    };
+};
+
+export const isProviderConfigured = (name: OAuthProviderName): boolean => {
+  const config = oauthProviders[name];
+  return !!config.clientId && !!config.clientSecret;
+};
+
+export const getOAuthProvider = (name: string): OAuthProviderConfig | null => {
+  if (name !== 'google' && name !== 'github') {
+    return null;
+  }
+  return isProviderConfigured(name) ? oauthProviders[name] : null;
+};
+
+// Callback URL registered with the provider, e.g. .../api/auth/callback/google
+export const getCallbackUrl = (name: OAuthProviderName): string => {
+  return `${env.OAUTH_CALLBACK_URL.replace(/\/$/, '')}/${name}`;
+};
+
+export const setupPassport = (): void => {
+  const enabled = (Object.keys(oauthProviders) as OAuthProviderName[]).filter(isProviderConfigured);
+  if (enabled.length > 0) {
+    logger.info('🔐 OAuth providers enabled', { providers: enabled });
+  } else {
+    logger.info('ℹ️ No OAuth providers configured - using email/password authentication only');
   }
 };
 
 // Export authentication status
-export const isOAuthEnabled = (): boolean => false;
+export const isOAuthEnabled = (): boolean =>
+  isProviderConfigured('google') || isProviderConfigured('github');
 
 export const getAvailableAuthMethods = () => ({
   jwt: true,
   email: true,
-  google: false,
-  github: false,
-  oauth: false
-});
\ No newline at end of file
+  google: isProviderConfigured('google'),
+  github: isProviderConfigured('github'),
+  oauth: isOAuthEnabled(),
+});
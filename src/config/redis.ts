@@ -109,6 +109,37 @@ export class RedisConfig {
     }
   }
 
+  // Only treat Redis as available when a non-default URL has been configured
+  static isConfigured(): boolean {
+    return !!env.REDIS_URL && env.REDIS_URL !== 'redis://localhost:6379';
+  }
+
+  // Open the lazy connection; resolves false when Redis is not usable
+  static async connect(): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    const instance = this.getInstance();
+    if (!instance) {
+      return false;
+    }
+
+    if (instance.status === 'ready') {
+      return true;
+    }
+
+    try {
+      if (instance.status === 'wait') {
+        await instance.connect();
+      }
+      return this.healthCheck();
+    } catch (error) {
+      logger.warn('Redis connect failed', { error: (error as Error).message });
+      return false;
+    }
+  }
+
   static getConnectionStatus(): boolean {
     return this.isConnected;
   }
@@ -1,6 +1,8 @@
 import path from 'path';
 import { env } from './env';
 
+export type StorageType = 'local' | 's3' | 'gcs' | 'azure';
+
 export const uploadConfig = {
   // File size limits (in bytes)
   limits: {
@@ -57,17 +59,17 @@ export const uploadConfig = {
 
   // Storage settings
   storage: {
-    type: 'local', // 'local' | 's3' | 'gcs' | 'azure'
+    type: env.STORAGE_DRIVER as StorageType, // 'local' | 's3' (gcs/azure not implemented)
     cleanup: {
       tempFiles: 24 * 60 * 60 * 1000, // 24 hours
       orphanedFiles: 7 * 24 * 60 * 60 * 1000, // 7 days
     },
   },
 
-  // CDN settings (for future use)
+  // CDN settings - baseUrl maps to the storage root (UPLOAD_DIR or the bucket)
   cdn: {
-    enabled: false,
-    baseUrl: '',
+    enabled: !!env.CDN_BASE_URL,
+    baseUrl: env.CDN_BASE_URL.replace(/\/$/, ''),
     cacheTtl: 31536000, // 1 year
   },
 };
@@ -1,13 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/db';
+import { env } from '../config/env';
 import { AppError } from '../utils/errorHandler';
 import { getPaginationParams } from '../utils/pagination';
 import { AuthRequest } from '../types';
-import { Role, Language } from '@prisma/client';
+import { Role, Language, FollowTarget } from '@prisma/client';
 import { syncNewsFromAPI } from '../services/news-api.service';
+import { NotificationService } from '../services/notification.service';
+import { AuditService, AuditLogFilters } from '../services/audit.service';
+import { LoginSecurityService } from '../services/login-security.service';
+import { UploadCleanupService } from '../services/upload-cleanup.service';
+import { SessionService } from '../services/session.service';
+import { FollowService } from '../services/follow.service';
+import { TrashService, TrashType, TRASH_TYPES } from '../services/trash.service';
 import { logger } from '../utils/logger';
 import { getCachedData, setCachedData } from '../utils/cache';
 import { sanitizeInput } from '../utils/sanitize';
+import { notDeleted, softDeleteData } from '../utils/softDelete';
 import slugify from 'slugify';
 
 // Cache TTL for admin data
@@ -38,16 +47,18 @@ export const getDashboardStatsHandler = async (
       totalBookmarks,
       totalShares,
     ] = await Promise.all([
-      prisma.user.count(),
-      prisma.article.count(),
-      prisma.comment.count(),
+      prisma.user.count({ where: notDeleted }),
+      prisma.article.count({ where: notDeleted }),
+      prisma.comment.count({ where: notDeleted }),
       prisma.category.count(),
       prisma.article.aggregate({
+        where: notDeleted,
         _sum: { viewCount: true },
       }),
       prisma.like.count(),
       prisma.bookmark.count(),
       prisma.article.aggregate({
+        where: notDeleted,
         _sum: { shareCount: true },
       }),
     ]);
@@ -61,6 +72,7 @@ export const getDashboardStatsHandler = async (
         publishedAt: {
           gte: thirtyDaysAgo,
         },
+        ...notDeleted,
       },
       orderBy: { viewCount: 'desc' },
       take: 5,
@@ -85,7 +97,7 @@ export const getDashboardStatsHandler = async (
         _count: {
           select: {
             likes: true,
-            comments: true,
+            comments: { where: notDeleted },
           },
         },
       },
@@ -93,6 +105,7 @@ export const getDashboardStatsHandler = async (
 
     // Get recent articles
     const recentArticles = await prisma.article.findMany({
+      where: notDeleted,
       orderBy: { createdAt: 'desc' },
       take: 5,
       select: {
@@ -119,6 +132,7 @@ export const getDashboardStatsHandler = async (
 
     // Get recent users
     const recentUsers = await prisma.user.findMany({
+      where: notDeleted,
       orderBy: { createdAt: 'desc' },
       take: 5,
       select: {
@@ -142,6 +156,7 @@ export const getDashboardStatsHandler = async (
           createdAt: {
             gte: thirtyDaysAgo,
           },
+          ...notDeleted,
         },
       }),
       prisma.user.count({
@@ -150,6 +165,7 @@ export const getDashboardStatsHandler = async (
             gte: sixtyDaysAgo,
             lt: thirtyDaysAgo,
           },
+          ...notDeleted,
         },
       }),
     ]);
@@ -180,6 +196,7 @@ export const getDashboardStatsHandler = async (
         topArticles,
         recentArticles,
         recentUsers,
+        uploadCleanup: await UploadCleanupService.getLastReport(),
         lastUpdated: new Date().toISOString(),
       },
     };
@@ -213,8 +230,8 @@ export const getUsersHandler = async (
     const sortBy = req.query.sortBy as string || 'createdAt';
     const sortOrder = req.query.sortOrder as 'asc' | 'desc' || 'desc';
     
-    // Build query
-    const where: any = {};
+    // Build query; deleted users are listed in the trash instead
+    const where: any = { ...notDeleted };
     
     if (search) {
       const sanitizedSearch = sanitizeInput({ search }).search;
@@ -256,8 +273,8 @@ export const getUsersHandler = async (
         language: true,
         _count: {
           select: {
-            articles: true,
-            comments: true,
+            articles: { where: notDeleted },
+            comments: { where: notDeleted },
             likes: true,
             bookmarks: true,
           },
@@ -316,7 +333,7 @@ export const updateUserRoleHandler = async (
 
     // Find user
     const user = await prisma.user.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       select: {
         id: true,
         name: true,
@@ -333,7 +350,7 @@ export const updateUserRoleHandler = async (
     // Prevent demoting the last admin
     if (user.role === Role.ADMIN && role !== Role.ADMIN) {
       const adminCount = await prisma.user.count({
-        where: { role: Role.ADMIN },
+        where: { role: Role.ADMIN, ...notDeleted },
       });
 
       if (adminCount <= 1) {
@@ -370,6 +387,8 @@ export const updateUserRoleHandler = async (
       newRole: role,
       updatedBy: req.user?.id,
     });
+
+    await AuditService.logUserRoleChange(req.user!.id, id, user.role, role, req.ip || 'unknown');
     
     res.status(200).json({
       success: true,
@@ -382,6 +401,71 @@ export const updateUserRoleHandler = async (
   }
 };
 
+// Get account lockout status
+export const getUserLockStatusHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const status = await LoginSecurityService.getLockStatus(user.id);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Unlock a user account locked by failed logins
+export const unlockUserHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    await LoginSecurityService.unlock(user.id);
+
+    logger.info('User account unlocked', {
+      targetUserId: user.id,
+      unlockedBy: req.user?.id,
+    });
+
+    await AuditService.logSecurityEvent('account_unlocked', { targetUserId: user.id }, req.ip, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'User account unlocked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Delete user with enhanced validation
 export const deleteUserHandler = async (
   req: AuthRequest,
@@ -397,7 +481,7 @@ export const deleteUserHandler = async (
 
     // Find user
     const user = await prisma.user.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       select: {
         id: true,
         name: true,
@@ -406,8 +490,8 @@ export const deleteUserHandler = async (
         role: true,
         _count: {
           select: {
-            articles: true,
-            comments: true,
+            articles: { where: notDeleted },
+            comments: { where: notDeleted },
           },
         },
       },
@@ -425,7 +509,7 @@ export const deleteUserHandler = async (
     // Prevent deleting the last admin
     if (user.role === Role.ADMIN) {
       const adminCount = await prisma.user.count({
-        where: { role: Role.ADMIN },
+        where: { role: Role.ADMIN, ...notDeleted },
       });
 
       if (adminCount <= 1) {
@@ -439,10 +523,12 @@ export const deleteUserHandler = async (
       throw new AppError(`User has ${user._count.articles} articles. Please reassign or delete articles first.`, 400);
     }
 
-    // Delete user (this will cascade to related records based on your schema)
-    await prisma.user.delete({
+    // Move the account to the trash and sign it out everywhere; the retention job purges it later
+    await prisma.user.update({
       where: { id },
+      data: softDeleteData(req.user!.id),
     });
+    await SessionService.revokeAllForUser(id, 'account_deleted');
 
     logger.info('User deleted', {
       deletedUserId: id,
@@ -452,9 +538,11 @@ export const deleteUserHandler = async (
       hadComments: user._count.comments,
     });
 
+    await AuditService.logUserDelete(req.user!.id, id, req.ip || 'unknown');
+
     res.status(200).json({
       success: true,
-      message: 'User deleted successfully',
+      message: 'User moved to trash',
     });
   } catch (error) {
     logger.error('Delete user error', { error, userId: req.user?.id, targetId: req.params.id });
@@ -498,11 +586,11 @@ export const getCategoriesHandler = async (
       include: {
         _count: {
           select: {
-            articles: true,
+            articles: { where: notDeleted },
           },
         },
         articles: {
-          where: { published: true },
+          where: { published: true, ...notDeleted },
           orderBy: { publishedAt: 'desc' },
           take: 1,
           select: {
@@ -730,7 +818,7 @@ export const deleteCategoryHandler = async (
       include: {
         _count: {
           select: {
-            articles: true,
+            articles: { where: notDeleted },
           },
         },
       },
@@ -749,6 +837,7 @@ export const deleteCategoryHandler = async (
     await prisma.category.delete({
       where: { id },
     });
+    await FollowService.removeTarget(FollowTarget.CATEGORY, id);
 
     logger.info('Category deleted', {
       categoryId: id,
@@ -801,7 +890,7 @@ export const getTagsHandler = async (
       include: {
         _count: {
           select: {
-            articles: true,
+            articles: { where: notDeleted },
           },
         },
       },
@@ -991,7 +1080,7 @@ export const deleteTagHandler = async (
       include: {
         _count: {
           select: {
-            articles: true,
+            articles: { where: notDeleted },
           },
         },
       },
@@ -1005,6 +1094,7 @@ export const deleteTagHandler = async (
     await prisma.tag.delete({
       where: { id },
     });
+    await FollowService.removeTarget(FollowTarget.TAG, id);
 
     logger.info('Tag deleted', {
       tagId: id,
@@ -1039,7 +1129,7 @@ export const toggleTrendingArticleHandler = async (
 
     // Find article
     const article = await prisma.article.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       select: {
         id: true,
         title: true,
@@ -1054,16 +1144,18 @@ export const toggleTrendingArticleHandler = async (
       throw new AppError('Article not found', 404);
     }
 
-    // Update article
+    // Pin or unpin; unpinned articles are left to the trending job, which may pick them again
     const updatedArticle = await prisma.article.update({
       where: { id },
       data: {
         isTrending,
+        trendingPinned: isTrending,
       },
       select: {
         id: true,
         title: true,
         isTrending: true,
+        trendingPinned: true,
         isBreaking: true,
         publishedAt: true,
       },
@@ -1104,11 +1196,13 @@ export const toggleBreakingNewsHandler = async (
 
     // Find article
     const article = await prisma.article.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       select: {
         id: true,
         title: true,
         isBreaking: true,
+        published: true,
+        language: true,
         author: {
           select: { name: true },
         },
@@ -1142,6 +1236,29 @@ export const toggleBreakingNewsHandler = async (
       updatedBy: req.user?.id,
     });
 
+    // Alert readers of the article's language when it newly becomes breaking news
+    if (isBreaking && !article.isBreaking && article.published) {
+      const recipients = await prisma.user.findMany({
+        where: {
+          language: article.language,
+          preference: { notifications: true },
+          ...notDeleted,
+        },
+        select: { id: true },
+      });
+
+      NotificationService.createForUsers(
+        recipients.map(user => user.id),
+        {
+          type: 'breaking',
+          message: `Breaking news: ${article.title}`,
+          relatedId: article.id,
+        }
+      ).catch(error => {
+        logger.error('Breaking news notification failed', { error, articleId: id });
+      });
+    }
+
     res.status(200).json({
       success: true,
       message: `Article ${isBreaking ? 'marked as breaking news' : 'removed from breaking news'}`,
@@ -1200,4 +1317,235 @@ export const syncNewsAPIHandler = async (
     logger.error('News sync error', { error, userId: req.user?.id, body: req.body });
     next(error);
   }
-};
\ No newline at end of file
+};
+
+// Get the last upload cleanup report and what is currently quarantined
+export const getUploadCleanupHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const [lastReport, quarantine] = await Promise.all([
+      UploadCleanupService.getLastReport(),
+      UploadCleanupService.getQuarantineSummary(),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        lastReport,
+        quarantine,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Run the upload cleanup now (?dryRun=true only reports what would happen)
+export const runUploadCleanupHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+
+    logger.info('Upload cleanup started manually', {
+      dryRun,
+      initiatedBy: req.user?.id,
+    });
+
+    const report = await UploadCleanupService.run({ dryRun });
+
+    res.status(200).json({
+      success: true,
+      message: dryRun ? 'Upload cleanup dry run completed' : 'Upload cleanup completed',
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+const parseTrashType = (value: unknown): TrashType => {
+  if (!TrashService.isTrashType(value)) {
+    throw new AppError(`Trash type must be one of: ${TRASH_TYPES.join(', ')}`, 400);
+  }
+  return value;
+};
+
+// List soft-deleted articles, comments or users (?type=article|comment|user)
+export const getTrashHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const type = parseTrashType(req.query.type || 'article');
+    const { page, limit } = getPaginationParams(req);
+
+    const { items, total } = await TrashService.list(type, page, limit);
+
+    res.status(200).json({
+      success: true,
+      data: items,
+      retentionDays: env.TRASH_RETENTION_DAYS,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Restore an item from the trash
+export const restoreTrashItemHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const type = parseTrashType(req.params.type);
+    const { id } = req.params;
+
+    await TrashService.restore(type, id);
+    await AuditService.logTrashRestore(req.user!.id, type, id, req.ip || 'unknown');
+
+    res.status(200).json({
+      success: true,
+      message: 'Item restored',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Permanently delete an item that is already in the trash
+export const purgeTrashItemHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const type = parseTrashType(req.params.type);
+    const { id } = req.params;
+
+    await TrashService.purge(type, id);
+    await AuditService.logTrashPurge(req.user!.id, type, id, req.ip || 'unknown');
+
+    res.status(200).json({
+      success: true,
+      message: 'Item permanently deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const AUDIT_EXPORT_LIMIT = 10000;
+
+const parseDateParam = (value: unknown, name: string): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new AppError(`Invalid ${name}`, 400);
+  }
+
+  return date;
+};
+
+// Get audit logs with filters, optionally exported as CSV
+export const getAuditLogsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, action, targetId, targetType, format } = req.query;
+    const { page, limit } = getPaginationParams(req);
+
+    const filters: AuditLogFilters = {
+      userId: userId as string | undefined,
+      action: action ? (action as string).toUpperCase() : undefined,
+      targetId: targetId as string | undefined,
+      targetType: targetType as string | undefined,
+      startDate: parseDateParam(req.query.startDate, 'startDate'),
+      endDate: parseDateParam(req.query.endDate, 'endDate'),
+    };
+
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+      throw new AppError('startDate must be before endDate', 400);
+    }
+
+    if (format === 'csv') {
+      const { logs, total } = await AuditService.getAuditLogs({
+        ...filters,
+        limit: AUDIT_EXPORT_LIMIT,
+      });
+
+      await AuditService.logDataExport(req.user!.id, 'audit_logs', req.ip || 'unknown');
+
+      const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.setHeader('X-Total-Count', total.toString());
+      res.status(200).send(AuditService.toCsv(logs));
+      return;
+    }
+
+    const { logs, total } = await AuditService.getAuditLogs({
+      ...filters,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    logger.error('Get audit logs error', { error, userId: req.user?.id, query: req.query });
+    next(error);
+  }
+};
+
+// Get audit summary report for a period (defaults to the last 30 days)
+export const getAuditReportHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const endDate = parseDateParam(req.query.endDate, 'endDate') || new Date();
+    const startDate = parseDateParam(req.query.startDate, 'startDate')
+      || new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    if (startDate > endDate) {
+      throw new AppError('startDate must be before endDate', 400);
+    }
+
+    const report = await AuditService.generateReport(startDate, endDate);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    logger.error('Get audit report error', { error, userId: req.user?.id });
+    next(error);
+  }
+};
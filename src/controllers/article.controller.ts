@@ -5,10 +5,20 @@ import { AppError } from "../utils/errorHandler";
 import { getPaginationParams } from "../utils/pagination";
 import { AuthRequest } from "../types";
 import { fetchArticlesFromNewsAPI } from "../services/news-api.service";
-import { Language, Role } from "@prisma/client";
+import { AuditService } from "../services/audit.service";
+import { CacheService } from "../services/cache.service";
+import { MediaService } from "../services/media.service";
+import { ArticleWorkflowService } from "../services/article-workflow.service";
+import { ArticleRevisionService } from "../services/article-revision.service";
+import { ArticleContributorService, contributorSelect } from "../services/article-contributor.service";
+import { RecommendationService } from "../services/recommendation.service";
+import { RelatedService } from "../services/related.service";
+import { ArticleStatus, ContributorRole, Language, Prisma, Role } from "@prisma/client";
 import { logger } from "../utils/logger";
 import { getCachedData, setCachedData } from "../utils/cache";
 import { sanitizeInput } from "../utils/sanitize";
+import { notDeleted, visibleComment, softDeleteData } from "../utils/softDelete";
+import { articleCardSelect } from "../utils/articleSelect";
 
 // Cache TTL constants
 const CACHE_TTL = {
@@ -41,6 +51,7 @@ export const getArticlesHandler = async (
 
     const where: any = {
       published: true,
+      ...notDeleted,
       language,
     };
 
@@ -58,48 +69,7 @@ export const getArticlesHandler = async (
     // Get paginated articles with optimized select
     const articles = await prisma.article.findMany({
       where,
-      select: {
-        id: true,
-        title: true,
-        slug: true,
-        summary: true,
-        image: true,
-        source: true,
-        isExternal: true,
-        isBreaking: true,
-        isTrending: true,
-        publishedAt: true,
-        viewCount: true,
-        shareCount: true,
-        author: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-          },
-        },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-          },
-        },
-        tags: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-          },
-        },
-        _count: {
-          select: {
-            likes: true,
-            comments: true,
-            bookmarks: true,
-          },
-        },
-      },
+      select: articleCardSelect,
       orderBy: [{ isBreaking: "desc" }, { publishedAt: "desc" }],
       skip: (page - 1) * limit,
       take: limit,
@@ -107,7 +77,7 @@ export const getArticlesHandler = async (
 
     const response = {
       success: true,
-      data: articles,
+      data: await MediaService.attachImageVariants(articles),
       pagination: {
         page,
         limit,
@@ -155,6 +125,7 @@ export const getArticleBySlugHandler = async (
         where: {
           slug: sanitizedSlug,
           published: true,
+          ...notDeleted,
         },
         include: {
           author: {
@@ -180,10 +151,15 @@ export const getArticleBySlugHandler = async (
               slug: true,
             },
           },
+          contributors: {
+            where: { user: notDeleted },
+            select: contributorSelect,
+            orderBy: { position: "asc" },
+          },
           _count: {
             select: {
               likes: true,
-              comments: true,
+              comments: { where: visibleComment },
               bookmarks: true,
             },
           },
@@ -219,63 +195,8 @@ export const getArticleBySlugHandler = async (
       await setCachedData(cacheKey, article, 600);
     }
 
-    // Get related articles with caching
-    const relatedCacheKey = `related:${article.id}`;
-    let relatedArticles = await getCachedData(relatedCacheKey);
-
-    if (!relatedArticles) {
-      relatedArticles = await prisma.article.findMany({
-        where: {
-          OR: [
-            { categoryId: article.categoryId },
-            {
-              tags: {
-                some: {
-                  id: {
-                    in: article.tagIds || [],
-                  },
-                },
-              },
-            },
-          ],
-          NOT: {
-            id: article.id,
-          },
-          published: true,
-          language: article.language,
-        },
-        select: {
-          id: true,
-          title: true,
-          slug: true,
-          summary: true,
-          image: true,
-          publishedAt: true,
-          viewCount: true,
-          isExternal: true,
-          sourceUrl: true,
-          source: true,
-          category: {
-            select: {
-              name: true,
-              slug: true,
-            },
-          },
-          _count: {
-            select: {
-              likes: true,
-              comments: true,
-            },
-          },
-        },
-        orderBy: {
-          publishedAt: "desc",
-        },
-        take: 4,
-      });
-
-      await setCachedData(relatedCacheKey, relatedArticles, 900); // 15 minutes
-    }
+    // Get related articles from the cached neighbor list
+    const relatedArticles = await RelatedService.getRelated(article, 4);
 
     // Check user interactions if authenticated
     let isBookmarked = false;
@@ -366,10 +287,10 @@ export const getArticleBySlugHandler = async (
     res.status(200).json({
       success: true,
       data: {
-        ...article,
+        ...(await MediaService.attachImageVariant(article)),
         isBookmarked,
         isLiked,
-        relatedArticles,
+        relatedArticles: await MediaService.attachImageVariants(relatedArticles),
         // Tambahkan informasi untuk frontend
         contentNote:
           article.isExternal &&
@@ -384,6 +305,35 @@ export const getArticleBySlugHandler = async (
   }
 };
 
+// Get articles similar to the given one ("More like this")
+export const getRelatedArticlesHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 6, 1), 12);
+
+    const article = await prisma.article.findFirst({
+      where: { slug: req.params.slug.toLowerCase().trim(), published: true, ...notDeleted },
+      select: { id: true, title: true, summary: true, categoryId: true, tagIds: true, language: true },
+    });
+
+    if (!article) {
+      throw new AppError("Article not found", 404);
+    }
+
+    const related = await RelatedService.getRelated(article, limit);
+
+    res.status(200).json({
+      success: true,
+      data: await MediaService.attachImageVariants(related),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Create new article with enhanced validation
 export const createArticleHandler = async (
   req: AuthRequest,
@@ -405,7 +355,7 @@ export const createArticleHandler = async (
       language = Language.ENGLISH,
       isBreaking = false,
       isTrending = false,
-      published = true,
+      status: requestedStatus,
     } = req.body;
 
     // Enhanced validation
@@ -463,6 +413,12 @@ export const createArticleHandler = async (
       slug = `${slug}-${Date.now()}`;
     }
 
+    // Authors always start with a draft; editors and admins may publish straight away
+    const status =
+      ArticleWorkflowService.isEditor(req.user.role) && requestedStatus === ArticleStatus.PUBLISHED
+        ? ArticleStatus.PUBLISHED
+        : ArticleStatus.DRAFT;
+
     // Only admins can mark articles as breaking or trending
     const finalIsBreaking = req.user.role === Role.ADMIN ? isBreaking : false;
     const finalIsTrending = req.user.role === Role.ADMIN ? isTrending : false;
@@ -481,7 +437,11 @@ export const createArticleHandler = async (
         language,
         isBreaking: finalIsBreaking,
         isTrending: finalIsTrending,
-        published,
+        trendingPinned: finalIsTrending || null,
+        status,
+        published: status === ArticleStatus.PUBLISHED,
+        scheduledAt: null,
+        submittedAt: null,
       },
       include: {
         author: {
@@ -500,9 +460,19 @@ export const createArticleHandler = async (
       articleId: article.id,
       authorId: req.user.id,
       title: article.title,
-      published,
+      status,
     });
 
+    await prisma.articleContributor.create({
+      data: { articleId: article.id, userId: req.user.id, role: ContributorRole.AUTHOR, position: 0 },
+    });
+    await ArticleRevisionService.record(article, req.user.id, []);
+    await AuditService.logArticleCreate(req.user.id, article.id, req.ip || "unknown");
+
+    if (status === ArticleStatus.PUBLISHED) {
+      await ArticleWorkflowService.afterVisibilityChange(article.id, null, status);
+    }
+
     res.status(201).json({
       success: true,
       message: "Article created successfully",
@@ -536,6 +506,7 @@ export const getBreakingNewsHandler = async (
       where: {
         isBreaking: true,
         published: true,
+        ...notDeleted,
         language,
       },
       select: {
@@ -565,7 +536,7 @@ export const getBreakingNewsHandler = async (
         _count: {
           select: {
             likes: true,
-            comments: true,
+            comments: { where: visibleComment },
           },
         },
       },
@@ -605,7 +576,7 @@ export const getBreakingNewsHandler = async (
     } else {
       response = {
         success: true,
-        data: articles,
+        data: await MediaService.attachImageVariants(articles),
         source: "internal",
       };
     }
@@ -637,11 +608,12 @@ export const getTrendingArticlesHandler = async (
       return res.status(200).json(cachedData);
     }
 
-    // First try to get articles manually marked as trending
+    // First try the set kept by the trending job, admin pins first
     const markedTrending = await prisma.article.findMany({
       where: {
         isTrending: true,
         published: true,
+        ...notDeleted,
         language,
       },
       select: {
@@ -672,13 +644,11 @@ export const getTrendingArticlesHandler = async (
         _count: {
           select: {
             likes: true,
-            comments: true,
+            comments: { where: visibleComment },
           },
         },
       },
-      orderBy: {
-        publishedAt: "desc",
-      },
+      orderBy: [{ trendingPinned: "desc" }, { trendingScore: "desc" }, { publishedAt: "desc" }],
       take: limit,
     });
 
@@ -688,7 +658,7 @@ export const getTrendingArticlesHandler = async (
     if (markedTrending.length >= Math.min(limit, 5)) {
       response = {
         success: true,
-        data: markedTrending,
+        data: await MediaService.attachImageVariants(markedTrending),
         source: "curated",
       };
     } else {
@@ -699,6 +669,7 @@ export const getTrendingArticlesHandler = async (
       const trendingArticles = await prisma.article.findMany({
         where: {
           published: true,
+          ...notDeleted,
           language,
           publishedAt: {
             gte: sevenDaysAgo,
@@ -732,7 +703,7 @@ export const getTrendingArticlesHandler = async (
           _count: {
             select: {
               likes: true,
-              comments: true,
+              comments: { where: visibleComment },
             },
           },
         },
@@ -742,7 +713,7 @@ export const getTrendingArticlesHandler = async (
 
       response = {
         success: true,
-        data: trendingArticles,
+        data: await MediaService.attachImageVariants(trendingArticles),
         source: "algorithmic",
       };
     }
@@ -786,6 +757,7 @@ export const searchArticlesHandler = async (
     // Build search query
     const where: any = {
       published: true,
+      ...notDeleted,
       language,
     };
 
@@ -812,10 +784,9 @@ export const searchArticlesHandler = async (
       };
     }
 
+    // Match the primary author and anyone else credited on the article
     if (author) {
-      where.author = {
-        username: author as string,
-      };
+      where.AND = [ArticleContributorService.creditedTo(author as string)];
     }
 
     // Count total articles
@@ -857,10 +828,15 @@ export const searchArticlesHandler = async (
             slug: true,
           },
         },
+        contributors: {
+          where: { user: notDeleted },
+          select: contributorSelect,
+          orderBy: { position: "asc" },
+        },
         _count: {
           select: {
             likes: true,
-            comments: true,
+            comments: { where: visibleComment },
           },
         },
       },
@@ -912,7 +888,7 @@ export const searchArticlesHandler = async (
     } else {
       response = {
         success: true,
-        data: articles,
+        data: await MediaService.attachImageVariants(articles),
         source: "internal",
         pagination: {
           page,
@@ -955,12 +931,11 @@ export const updateArticleHandler = async (
       language,
       isBreaking,
       isTrending,
-      published,
     } = req.body;
 
     // Find article
     const article = await prisma.article.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       include: {
         author: {
           select: { id: true, name: true },
@@ -972,11 +947,22 @@ export const updateArticleHandler = async (
       throw new AppError("Article not found", 404);
     }
 
-    // Check authorization
-    if (article.authorId !== req.user.id && req.user.role !== Role.ADMIN) {
+    // Check authorization (co-authors may edit too)
+    if (!(await ArticleContributorService.canEdit(article, req.user))) {
       throw new AppError("Unauthorized to update this article", 403);
     }
 
+    // Approved text is frozen for writers; an editor has to return the article to draft first
+    const status = ArticleWorkflowService.getStatus(article);
+    if (
+      !ArticleWorkflowService.isEditor(req.user.role) &&
+      status !== ArticleStatus.DRAFT &&
+      status !== ArticleStatus.IN_REVIEW &&
+      (title || content || summary)
+    ) {
+      throw new AppError("Only editors and admins can change the text of an approved article", 403);
+    }
+
     // Validate inputs if provided
     if (title && (title.length < 10 || title.length > 200)) {
       throw new AppError("Title must be between 10 and 200 characters", 400);
@@ -1022,16 +1008,22 @@ export const updateArticleHandler = async (
     if (categoryId !== undefined) updateData.categoryId = categoryId;
     if (tagIds !== undefined) updateData.tagIds = tagIds;
     if (language !== undefined) updateData.language = language;
-    if (published !== undefined) updateData.published = published;
+    // Publishing goes through PATCH /articles/:id/status
 
     // Only admins can update breaking/trending status
     if (req.user.role === Role.ADMIN) {
       if (isBreaking !== undefined) updateData.isBreaking = isBreaking;
-      if (isTrending !== undefined) updateData.isTrending = isTrending;
+      if (isTrending !== undefined) {
+        // A manual choice pins the article until an admin changes it again
+        updateData.isTrending = isTrending;
+        updateData.trendingPinned = isTrending;
+      }
     }
 
     updateData.updatedAt = new Date();
 
+    await ArticleRevisionService.ensureBaseline(article);
+
     // Update article
     const updatedArticle = await prisma.article.update({
       where: { id },
@@ -1049,12 +1041,31 @@ export const updateArticleHandler = async (
       },
     });
 
+    // Text, tags, category and language drive similarity, so the neighbor list is rebuilt
+    if (["title", "content", "summary", "tagIds", "categoryId", "language"].some((field) => field in updateData)) {
+      await RelatedService.refresh(updatedArticle);
+    }
+
+    // Flag-only changes (breaking/trending) do not produce a revision
+    const revisionFields = ArticleRevisionService.trackedFields(Object.keys(updateData));
+    const revision = revisionFields.length
+      ? await ArticleRevisionService.record(updatedArticle, req.user.id, revisionFields)
+      : null;
+
     logger.info("Article updated", {
       articleId: id,
       updatedBy: req.user.id,
       updatedFields: Object.keys(updateData),
+      revision: revision?.version,
     });
 
+    await AuditService.logArticleUpdate(
+      req.user.id,
+      id,
+      Object.keys(updateData).filter((field) => field !== "updatedAt"),
+      req.ip || "unknown"
+    );
+
     res.status(200).json({
       success: true,
       message: "Article updated successfully",
@@ -1070,7 +1081,364 @@ export const updateArticleHandler = async (
   }
 };
 
-// Delete article (admin only)
+// Change editorial status (submit, approve, schedule, publish, archive)
+export const updateArticleStatusHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    const { status, comment, scheduledAt } = req.body;
+
+    const { article, review, from } = await ArticleWorkflowService.transition(
+      req.params.id,
+      status,
+      req.user,
+      { comment, scheduledAt }
+    );
+
+    await AuditService.logArticleStatusChange(
+      req.user.id,
+      article.id,
+      from,
+      status,
+      req.ip || "unknown"
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Article moved to ${status}`,
+      data: {
+        article,
+        review,
+        allowedTransitions: await ArticleWorkflowService.getAllowedTransitions(article, req.user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get review history and comments for an article
+export const getArticleReviewsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    const data = await ArticleWorkflowService.getReviews(req.params.id, req.user);
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Add a reviewer comment without changing the status
+export const addArticleReviewCommentHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    const review = await ArticleWorkflowService.addComment(req.params.id, req.user, req.body.comment);
+
+    res.status(201).json({
+      success: true,
+      message: "Comment added",
+      data: review,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get articles in any status (editors/admins see all, authors their own)
+export const getManagedArticlesHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    const { page, limit } = getPaginationParams(req);
+    const { status, authorId, language, q } = req.query;
+
+    if (status && !Object.values(ArticleStatus).includes(status as ArticleStatus)) {
+      throw new AppError(`Invalid status. Use one of: ${Object.values(ArticleStatus).join(", ")}`, 400);
+    }
+
+    const conditions: Prisma.ArticleWhereInput[] = [notDeleted];
+
+    if (!ArticleWorkflowService.isEditor(req.user.role)) {
+      conditions.push(ArticleContributorService.writtenBy(req.user.id));
+    } else if (authorId) {
+      conditions.push({ authorId: authorId as string });
+    }
+
+    if (status) {
+      conditions.push(ArticleWorkflowService.statusWhere(status as ArticleStatus));
+    }
+
+    if (language && Object.values(Language).includes(language as Language)) {
+      conditions.push({ language: language as Language });
+    }
+
+    if (q) {
+      conditions.push({ title: { contains: q as string, mode: "insensitive" } });
+    }
+
+    const where: Prisma.ArticleWhereInput = { AND: conditions };
+
+    const [articles, total] = await Promise.all([
+      prisma.article.findMany({
+        where,
+        select: {
+          id: true,
+          title: true,
+          slug: true,
+          summary: true,
+          image: true,
+          isExternal: true,
+          isBreaking: true,
+          isTrending: true,
+          published: true,
+          status: true,
+          scheduledAt: true,
+          submittedAt: true,
+          publishedAt: true,
+          createdAt: true,
+          updatedAt: true,
+          authorId: true,
+          author: {
+            select: {
+              id: true,
+              name: true,
+              image: true,
+            },
+          },
+          category: {
+            select: {
+              id: true,
+              name: true,
+              slug: true,
+            },
+          },
+          _count: {
+            select: {
+              reviews: true,
+            },
+          },
+        },
+        orderBy: { updatedAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.article.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: await Promise.all(
+        articles.map(async (article) => ({
+          ...article,
+          status: ArticleWorkflowService.getStatus(article),
+          allowedTransitions: await ArticleWorkflowService.getAllowedTransitions(article, req.user!),
+        }))
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Load an article the current user may see the history of
+const findArticleForHistory = async (req: AuthRequest) => {
+  const article = await prisma.article.findFirst({ where: { id: req.params.id, ...notDeleted } });
+
+  if (!article || !req.user || !(await ArticleContributorService.canEdit(article, req.user))) {
+    throw new AppError("Article not found", 404);
+  }
+
+  return article;
+};
+
+// Get revision history of an article
+export const getArticleRevisionsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const article = await findArticleForHistory(req);
+    const { page, limit } = getPaginationParams(req);
+
+    const { revisions, total } = await ArticleRevisionService.list(article.id, page, limit);
+
+    res.status(200).json({
+      success: true,
+      data: revisions,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a word-level diff between two revisions (?from=&to=, defaults to the last change)
+export const getArticleRevisionDiffHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const article = await findArticleForHistory(req);
+
+    const diff = await ArticleRevisionService.diff(
+      article.id,
+      req.query.from as string | undefined,
+      req.query.to as string | undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      data: diff,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single revision snapshot
+export const getArticleRevisionHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const article = await findArticleForHistory(req);
+    const revision = await ArticleRevisionService.get(article.id, req.params.revisionId);
+
+    res.status(200).json({
+      success: true,
+      data: revision,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Restore an earlier revision (saved as a new revision)
+export const restoreArticleRevisionHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    const article = await findArticleForHistory(req);
+
+    const result = await ArticleRevisionService.restore(article, req.params.revisionId, req.user.id);
+
+    await AuditService.logArticleUpdate(
+      req.user.id,
+      article.id,
+      { restoredFromVersion: result.restoredFrom.version, fields: result.revision.changedFields },
+      req.ip || "unknown"
+    );
+
+    if (ArticleWorkflowService.getStatus(result.article) === ArticleStatus.PUBLISHED) {
+      await CacheService.invalidateArticle(article.slug);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `Restored revision ${result.restoredFrom.version}`,
+      data: {
+        article: result.article,
+        revision: result.revision,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace the contributor credits of an article
+export const updateArticleContributorsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    const article = await prisma.article.findFirst({
+      where: { id: req.params.id, ...notDeleted },
+      select: { id: true, slug: true, authorId: true, status: true, published: true },
+    });
+
+    if (!article || !(await ArticleContributorService.canEdit(article, req.user))) {
+      throw new AppError("Article not found", 404);
+    }
+
+    const contributors = await ArticleContributorService.setContributors(article, req.body.contributors);
+
+    logger.info("Article contributors updated", {
+      articleId: article.id,
+      contributors: contributors.length,
+      userId: req.user.id,
+    });
+
+    if (ArticleWorkflowService.getStatus(article) === ArticleStatus.PUBLISHED) {
+      await CacheService.invalidateArticle(article.slug);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Contributors updated",
+      data: contributors,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Move article to the trash (admin only); TrashService restores or purges it
 export const deleteArticleHandler = async (
   req: AuthRequest,
   res: Response,
@@ -1085,10 +1453,11 @@ export const deleteArticleHandler = async (
 
     // Find article
     const article = await prisma.article.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       select: {
         id: true,
         title: true,
+        slug: true,
         authorId: true,
         author: {
           select: { name: true },
@@ -1100,11 +1469,14 @@ export const deleteArticleHandler = async (
       throw new AppError("Article not found", 404);
     }
 
-    // Delete article (this will cascade to related records)
-    await prisma.article.delete({
+    // Soft delete keeps likes, bookmarks and reading history for a restore
+    await prisma.article.update({
       where: { id },
+      data: softDeleteData(req.user.id),
     });
 
+    await CacheService.invalidateArticle(article.slug);
+
     logger.info("Article deleted", {
       articleId: id,
       articleTitle: article.title,
@@ -1112,9 +1484,11 @@ export const deleteArticleHandler = async (
       originalAuthor: article.authorId,
     });
 
+    await AuditService.logArticleDelete(req.user.id, id, req.ip || "unknown");
+
     res.status(200).json({
       success: true,
-      message: "Article deleted successfully",
+      message: "Article moved to trash",
     });
   } catch (error) {
     logger.error("Delete article error", {
@@ -1162,6 +1536,7 @@ export const getArticlesByCategoryHandler = async (
       where: {
         categoryId: category.id,
         published: true,
+        ...notDeleted,
         language,
       },
     });
@@ -1171,6 +1546,7 @@ export const getArticlesByCategoryHandler = async (
       where: {
         categoryId: category.id,
         published: true,
+        ...notDeleted,
         language,
       },
       select: {
@@ -1201,7 +1577,7 @@ export const getArticlesByCategoryHandler = async (
         _count: {
           select: {
             likes: true,
-            comments: true,
+            comments: { where: visibleComment },
           },
         },
       },
@@ -1257,7 +1633,7 @@ export const getArticlesByCategoryHandler = async (
     } else {
       response = {
         success: true,
-        data: articles,
+        data: await MediaService.attachImageVariants(articles),
         category,
         source: "internal",
         pagination: {
@@ -1282,7 +1658,7 @@ export const getArticlesByCategoryHandler = async (
   }
 };
 
-// Get recommended articles with enhanced algorithm
+// Get recommended articles, ranked and explained per article
 export const getRecommendedArticlesHandler = async (
   req: AuthRequest,
   res: Response,
@@ -1293,7 +1669,7 @@ export const getRecommendedArticlesHandler = async (
       throw new AppError("User not found", 404);
     }
 
-    const limit = parseInt(req.query.limit as string) || 10;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
     const cacheKey = `recommended:${req.user.id}:${limit}`;
     const cachedData = await getCachedData(cacheKey);
 
@@ -1301,126 +1677,18 @@ export const getRecommendedArticlesHandler = async (
       return res.status(200).json(cachedData);
     }
 
-    // Get user preferences and reading history
-    const [userPreference, readingHistory] = await Promise.all([
-      prisma.preference.findUnique({
-        where: { userId: req.user.id },
-      }),
-      prisma.readHistory.findMany({
-        where: { userId: req.user.id },
-        orderBy: { readAt: "desc" },
-        take: 20,
-        include: {
-          article: {
-            select: {
-              categoryId: true,
-              tagIds: true,
-              language: true,
-            },
-          },
-        },
-      }),
-    ]);
-
-    // Extract categories and tags from reading history
-    const readCategoryIds = readingHistory
-      .map((history) => history.article.categoryId)
-      .filter(Boolean) as string[];
-
-    const readTagIds = readingHistory.flatMap(
-      (history) => history.article.tagIds || []
-    );
-
-    // Combine with user preferences
-    const preferredCategoryIds = userPreference?.categories || [];
-    const allCategoryIds = [
-      ...new Set([...readCategoryIds, ...preferredCategoryIds]),
-    ];
-
-    // Build recommendation query with scoring
-    let where: any = {
-      published: true,
+    const recommendations = await RecommendationService.recommend({
+      userId: req.user.id,
       language: req.user.language,
-    };
-
-    // Exclude recently read articles
-    const readArticleIds = readingHistory.map((history) => history.articleId);
-    if (readArticleIds.length > 0) {
-      where.id = {
-        notIn: readArticleIds,
-      };
-    }
-
-    // Create scoring query for recommendations
-    if (allCategoryIds.length > 0 || readTagIds.length > 0) {
-      where.OR = [];
-
-      if (allCategoryIds.length > 0) {
-        where.OR.push({
-          categoryId: {
-            in: allCategoryIds,
-          },
-        });
-      }
-
-      if (readTagIds.length > 0) {
-        where.OR.push({
-          tagIds: {
-            hasSome: readTagIds,
-          },
-        });
-      }
-    }
-
-    // Get recommended articles
-    const recommendedArticles = await prisma.article.findMany({
-      where,
-      select: {
-        id: true,
-        title: true,
-        slug: true,
-        summary: true,
-        image: true,
-        publishedAt: true,
-        viewCount: true,
-        isExternal: true,
-        sourceUrl: true,
-        source: true,
-        author: {
-          select: {
-            id: true,
-            name: true,
-            image: true,
-          },
-        },
-        category: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-          },
-        },
-        tags: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-          },
-        },
-        _count: {
-          select: {
-            likes: true,
-            comments: true,
-          },
-        },
-      },
-      orderBy: [{ publishedAt: "desc" }, { viewCount: "desc" }],
-      take: limit,
+      limit,
     });
 
     const response = {
       success: true,
-      data: recommendedArticles,
+      data: {
+        ...recommendations,
+        articles: await MediaService.attachImageVariants(recommendations.articles),
+      },
     };
 
     // Cache recommendations for 30 minutes
@@ -1436,6 +1704,50 @@ export const getRecommendedArticlesHandler = async (
   }
 };
 
+// Mark a recommended article as not interested
+export const markNotInterestedHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    await RecommendationService.markNotInterested(req.user.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: "We will show you fewer articles like this",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Undo a not interested mark
+export const undoNotInterestedHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError("User not found", 404);
+    }
+
+    await RecommendationService.undoNotInterested(req.user.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Article is no longer marked as not interested",
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Increment view count with rate limiting
 export const incrementViewCountHandler = async (
   req: Request,
@@ -1451,7 +1763,7 @@ export const incrementViewCountHandler = async (
 
     // Check if article exists
     const article = await prisma.article.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       select: { id: true, title: true },
     });
 
@@ -1497,7 +1809,7 @@ export const incrementShareCountHandler = async (
 
     // Check if article exists
     const article = await prisma.article.findUnique({
-      where: { id },
+      where: { id, ...notDeleted },
       select: { id: true, title: true },
     });
 
@@ -1,15 +1,48 @@
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
 import { prisma } from '../config/db';
-import { generateToken, clearToken, blacklistToken } from '../utils/jwt';
+import {
+  setAuthCookies,
+  clearToken,
+  blacklistToken,
+  verifyToken,
+  generateEmailVerificationToken,
+  verifyEmailVerificationToken,
+  generateTwoFactorChallengeToken,
+} from '../utils/jwt';
 import { env } from '../config/env';
 import { AppError } from '../utils/errorHandler';
 import { Language, Provider, Role } from '@prisma/client';
 import { AuthRequest, RegisterInput, LoginInput, ProfileUpdateInput, PasswordUpdateInput } from '../types';
 import { logger } from '../utils/logger';
 import { sanitizeInput } from '../utils/sanitize';
+import { AuditService } from '../services/audit.service';
+import { SessionService } from '../services/session.service';
+import { EmailService } from '../services/email.service';
+import { TwoFactorService } from '../services/two-factor.service';
+import { LoginSecurityService } from '../services/login-security.service';
+import { generateSecureToken, hashToken } from '../utils/token';
+import { notDeleted } from '../utils/softDelete';
 
 const SALT_ROUNDS = 12;
+const PASSWORD_RESET_COOLDOWN = 60 * 1000; // One reset email per minute per account
+const PASSWORD_RESET_MESSAGE = 'If an account exists for that email, a password reset link has been sent.';
+
+// Fire-and-forget; a failed send can be retried through the resend endpoint
+const sendVerificationLink = (user: { id: string; name: string; email: string }): void => {
+  const token = generateEmailVerificationToken(user.id, user.email);
+  const verifyUrl = `${env.FRONTEND_URL}/verify-email?token=${token}`;
+
+  EmailService.sendVerificationEmail(user.email, { name: user.name, verifyUrl })
+    .then((sent) => {
+      if (!sent) {
+        logger.warn('Verification email not sent', { userId: user.id });
+      }
+    })
+    .catch((error) => {
+      logger.error('Verification email error', { error, userId: user.id });
+    });
+};
 
 // Enhanced getMeHandler to prevent loops
 export const getMeHandler = async (
@@ -53,10 +86,10 @@ export const getMeHandler = async (
         preference: true,
         _count: {
           select: {
-            articles: true,
+            articles: { where: notDeleted },
             bookmarks: true,
             likes: true,
-            comments: true,
+            comments: { where: notDeleted },
           },
         },
       },
@@ -204,23 +237,12 @@ export const registerHandler = async (
       return user;
     });
 
-    const token = generateToken(result.id, result.role);
-
-    // CRITICAL: Enhanced cookie setting for cross-origin
-    const cookieOptions = {
-      httpOnly: true,
-      secure: env.NODE_ENV === 'production',
-      maxAge: env.COOKIE_EXPIRES,
-      sameSite: env.NODE_ENV === 'production' ? 'none' as const : 'lax' as const,
-      path: '/',
-      domain: env.NODE_ENV === 'production' ? undefined : undefined, // Let browser handle domain
-    };
-
-    res.cookie('token', token, cookieOptions);
+    // CRITICAL: Access + refresh cookies, configured for cross-origin
+    const tokens = await SessionService.createSession(result, req);
+    setAuthCookies(res, tokens);
 
     // Add explicit headers for debugging
     res.setHeader('X-Cookie-Set', 'true');
-    res.setHeader('X-Cookie-Options', JSON.stringify(cookieOptions));
     res.setHeader('X-Auth-Token-Generated', 'true');
 
     const { password: _, ...userData } = result;
@@ -240,6 +262,10 @@ export const registerHandler = async (
       cookieSet: true,
     });
 
+    await AuditService.logRegistration(result.id, req.ip || 'unknown', req.get('User-Agent') || '');
+
+    sendVerificationLink(result);
+
     res.status(201).json({
       success: true,
       message: 'Registration successful',
@@ -290,7 +316,7 @@ export const loginHandler = async (
     });
 
     const user = await prisma.user.findUnique({
-      where: { email: sanitizedEmail },
+      where: { email: sanitizedEmail, ...notDeleted },
       include: {
         preference: true,
       },
@@ -305,6 +331,29 @@ export const loginHandler = async (
       return;
     }
 
+    const lockStatus = await LoginSecurityService.getLockStatus(user.id);
+    const isPasswordMatch = !!user.password && (await bcrypt.compare(password, user.password));
+
+    // Only someone who knows the password learns about the lock; anyone else sees a normal failed login,
+    // so probing an email cannot confirm that the account exists
+    if (lockStatus.locked) {
+      logger.warn('Login attempt on locked account', {
+        userId: user.id,
+        ip: req.ip,
+        lockedUntil: lockStatus.lockedUntil,
+        passwordMatched: isPasswordMatch,
+      });
+
+      if (!isPasswordMatch) {
+        next(new AppError('Invalid email or password', 401));
+        return;
+      }
+
+      res.setHeader('Retry-After', lockStatus.retryAfterSeconds.toString());
+      next(new AppError('Account temporarily locked due to too many failed login attempts. Please try again later.', 423));
+      return;
+    }
+
     if (!user.password) {
       logger.warn('Login attempt for OAuth user without password', {
         userId: user.id,
@@ -315,41 +364,59 @@ export const loginHandler = async (
       return;
     }
 
-    const isPasswordMatch = await bcrypt.compare(password, user.password);
-
     if (!isPasswordMatch) {
       logger.warn('Failed login attempt - incorrect password', {
         userId: user.id,
         email: sanitizedEmail,
         ip: req.ip,
       });
+      await AuditService.logLogin(user.id, req.ip || 'unknown', req.get('User-Agent') || '', false);
+
+      // The owner hears about a new lock by email, not through this response
+      await LoginSecurityService.recordFailure(user, req.ip || 'unknown', req.get('User-Agent') || '');
+
       next(new AppError('Invalid email or password', 401));
       return;
     }
 
-    const tokenExpiry = rememberMe ? 30 * 24 * 60 * 60 * 1000 : env.COOKIE_EXPIRES; // 30 days vs default
-    const token = generateToken(user.id, user.role);
+    // Second factor enabled: no session yet, the client completes login at /login/2fa
+    if (await TwoFactorService.isEnabled(user.id)) {
+      logger.info('Login awaiting second factor', { userId: user.id, ip: req.ip });
+
+      res.status(200).json({
+        success: true,
+        message: 'Two-factor authentication required',
+        requiresTwoFactor: true,
+        data: {
+          challengeToken: generateTwoFactorChallengeToken(user.id, rememberMe),
+          expiresIn: env.TWO_FACTOR_CHALLENGE_EXPIRES,
+        },
+      });
+      return;
+    }
+
+    // Only a completed login resets the counter; with 2FA that happens at /login/2fa
+    await LoginSecurityService.recordSuccess(user.id);
+
+    // CRITICAL: Short-lived access token + rotating refresh token bound to a session
+    const tokens = await SessionService.createSession(user, req, { rememberMe });
+    const tokenExpiry = tokens.refreshExpiresAt.getTime() - Date.now();
 
-    // CRITICAL: Enhanced cookie options for cross-origin Railway + Vercel
     const cookieOptions = {
       httpOnly: true,
       secure: env.NODE_ENV === 'production', // true for HTTPS
-      maxAge: tokenExpiry,
       sameSite: env.NODE_ENV === 'production' ? 'none' as const : 'lax' as const, // 'none' for cross-origin
-      path: '/',
-      // Don't set domain in production - let browser handle it
     };
 
-    console.log('🍪 Setting login cookie with options:', {
+    console.log('🍪 Setting login cookies:', {
       secure: cookieOptions.secure,
       sameSite: cookieOptions.sameSite,
-      httpOnly: cookieOptions.httpOnly,
-      maxAge: cookieOptions.maxAge,
-      path: cookieOptions.path,
+      accessTokenMaxAge: env.ACCESS_TOKEN_EXPIRES,
+      refreshTokenMaxAge: tokenExpiry,
       environment: env.NODE_ENV,
     });
 
-    res.cookie('token', token, cookieOptions);
+    setAuthCookies(res, tokens);
 
     // Add explicit headers for frontend debugging
     res.setHeader('X-Cookie-Set', 'true');
@@ -363,6 +430,8 @@ export const loginHandler = async (
       data: { updatedAt: new Date() },
     });
     
+    await AuditService.logLogin(user.id, req.ip || 'unknown', req.get('User-Agent') || '', true);
+
     const { password: _, ...userData } = user;
     
     console.log('✅ Login successful:', {
@@ -393,6 +462,7 @@ export const loginHandler = async (
         cookieSet: true,
         nodeEnv: env.NODE_ENV,
         tokenExpiry: tokenExpiry,
+        accessTokenExpiry: env.ACCESS_TOKEN_EXPIRES,
         cookieOptions: {
           secure: cookieOptions.secure,
           sameSite: cookieOptions.sameSite,
@@ -423,12 +493,32 @@ export const logoutHandler = async (
     });
     
     if (token) {
-      blacklistToken(token);
+      // Logout is not behind protect, so fall back to the token's subject
+      const decoded = await verifyToken(token);
+      const userId = req.user?.id || decoded?.userId;
+
+      // Forged or already expired tokens need no revocation entry
+      if (decoded) {
+        await blacklistToken(token, decoded);
+
+        if (decoded.sid) {
+          await SessionService.revoke(decoded.sid, 'logout');
+        }
+      }
       
       logger.info('User logged out', {
         userId: req.user?.id,
         ip: req.ip,
       });
+
+      if (userId) {
+        await AuditService.logLogout(userId, req.ip || 'unknown');
+      }
+    }
+
+    // Access token may already be expired; the refresh cookie still identifies the session
+    if (req.cookies.refreshToken) {
+      await SessionService.revokeByRefreshToken(req.cookies.refreshToken, 'logout');
     }
 
     clearToken(res);
@@ -582,6 +672,11 @@ export const updatePasswordHandler = async (
       ip: req.ip,
     });
 
+    await AuditService.logPasswordChange(req.user.id, req.ip || 'unknown');
+
+    // Sign out every other device; the current one stays logged in
+    await SessionService.revokeAllForUser(req.user.id, 'password_change', req.sessionId);
+
     res.status(200).json({
       success: true,
       message: 'Password updated successfully',
@@ -647,7 +742,7 @@ export const updatePreferenceHandler = async (
       return;
     }
     
-    const { categories, notifications, darkMode, emailUpdates } = req.body;
+    const { categories, notifications, darkMode, emailUpdates, activityPrivate } = req.body;
 
     if (categories && Array.isArray(categories)) {
       if (categories.length > 10) {
@@ -671,6 +766,7 @@ export const updatePreferenceHandler = async (
     if (notifications !== undefined) preferenceData.notifications = notifications;
     if (darkMode !== undefined) preferenceData.darkMode = darkMode;
     if (emailUpdates !== undefined) preferenceData.emailUpdates = emailUpdates;
+    if (activityPrivate !== undefined) preferenceData.activityPrivate = activityPrivate;
 
     const updatedPreference = await prisma.preference.upsert({
       where: { userId: req.user.id },
@@ -681,6 +777,7 @@ export const updatePreferenceHandler = async (
         notifications: notifications !== undefined ? notifications : true,
         darkMode: darkMode !== undefined ? darkMode : false,
         emailUpdates: emailUpdates !== undefined ? emailUpdates : true,
+        activityPrivate: activityPrivate !== undefined ? activityPrivate : true,
       },
     });
 
@@ -698,4 +795,233 @@ export const updatePreferenceHandler = async (
     logger.error('Preferences update error', { error, userId: req.user?.id });
     next(error);
   }
-};
\ No newline at end of file
+};
+// Request a password reset link. The response is identical whether or not the email exists.
+export const forgotPasswordHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email } = req.body as { email: string };
+
+    const user = await prisma.user.findUnique({
+      where: { email, ...notDeleted },
+      select: { id: true, name: true, email: true },
+    });
+
+    if (user) {
+      const recentRequest = await prisma.passwordResetToken.findFirst({
+        where: {
+          userId: user.id,
+          createdAt: { gt: new Date(Date.now() - PASSWORD_RESET_COOLDOWN) },
+        },
+        select: { id: true },
+      });
+
+      if (recentRequest) {
+        logger.warn('Password reset requested again within cooldown', {
+          userId: user.id,
+          ip: req.ip,
+        });
+      } else {
+        // Only the newest link should work
+        await prisma.passwordResetToken.updateMany({
+          where: { userId: user.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        const token = generateSecureToken();
+
+        await prisma.passwordResetToken.create({
+          data: {
+            userId: user.id,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + env.PASSWORD_RESET_EXPIRES),
+            usedAt: null,
+            requestedIp: req.ip,
+          },
+        });
+
+        const resetUrl = `${env.FRONTEND_URL}/reset-password?token=${token}`;
+
+        // Not awaited so response timing does not depend on SMTP
+        EmailService.sendPasswordResetEmail(user.email, { name: user.name, resetUrl })
+          .then((sent) => {
+            if (!sent) {
+              logger.warn('Password reset email not sent', { userId: user.id });
+            }
+          })
+          .catch((error) => {
+            logger.error('Password reset email error', { error, userId: user.id });
+          });
+
+        await AuditService.logSecurityEvent('password_reset_requested', {}, req.ip || 'unknown', user.id);
+
+        logger.info('Password reset requested', { userId: user.id, ip: req.ip });
+      }
+    } else {
+      logger.info('Password reset requested for unknown email', { ip: req.ip });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: PASSWORD_RESET_MESSAGE,
+    });
+  } catch (error) {
+    logger.error('Forgot password error', { error, ip: req.ip });
+    next(error);
+  }
+};
+
+// Reset password with a single-use token
+export const resetPasswordHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token, password } = req.body as { token: string; password: string };
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      next(new AppError('Invalid or expired reset token', 400));
+      return;
+    }
+
+    // Claim the token atomically so two concurrent requests cannot both use it
+    const claimed = await prisma.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      next(new AppError('Invalid or expired reset token', 400));
+      return;
+    }
+
+    const salt = await bcrypt.genSalt(SALT_ROUNDS);
+    const hashedPassword = await bcrypt.hash(password, salt);
+
+    // passwordChangedAt invalidates every token issued before now
+    await prisma.user.update({
+      where: { id: resetToken.userId },
+      data: {
+        password: hashedPassword,
+        passwordChangedAt: new Date(),
+      },
+    });
+
+    await prisma.passwordResetToken.updateMany({
+      where: { userId: resetToken.userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    await SessionService.revokeAllForUser(resetToken.userId, 'password_reset');
+
+    await AuditService.logPasswordReset(resetToken.userId, req.ip || 'unknown');
+
+    clearToken(res);
+
+    logger.info('Password reset completed', {
+      userId: resetToken.userId,
+      ip: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Password has been reset. Please log in with your new password.',
+    });
+  } catch (error) {
+    logger.error('Reset password error', { error, ip: req.ip });
+    next(error);
+  }
+};
+
+// Confirm email address from the emailed link
+export const verifyEmailHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const token = (req.body?.token || req.query.token) as string | undefined;
+
+    if (!token) {
+      next(new AppError('Verification token is required', 400));
+      return;
+    }
+
+    const payload = verifyEmailVerificationToken(token);
+    if (!payload) {
+      next(new AppError('Invalid or expired verification link', 400));
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { id: true, email: true, emailVerified: true },
+    });
+
+    // Address changed since the link was issued
+    if (!user || user.email !== payload.email) {
+      next(new AppError('Invalid or expired verification link', 400));
+      return;
+    }
+
+    if (!user.emailVerified) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { emailVerified: new Date() },
+      });
+
+      await AuditService.logSecurityEvent('email_verified', { email: user.email }, req.ip || 'unknown', user.id);
+      logger.info('Email verified', { userId: user.id });
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    logger.error('Verify email error', { error });
+    next(error);
+  }
+};
+
+// Send a fresh verification link to the current user
+export const resendVerificationHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      next(new AppError('Authentication required', 401));
+      return;
+    }
+
+    if (req.user.emailVerified) {
+      res.status(200).json({
+        success: true,
+        message: 'Email is already verified',
+      });
+      return;
+    }
+
+    sendVerificationLink(req.user);
+
+    logger.info('Verification email resent', { userId: req.user.id });
+
+    res.status(200).json({
+      success: true,
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    logger.error('Resend verification error', { error, userId: req.user?.id });
+    next(error);
+  }
+};
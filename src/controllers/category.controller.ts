@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { prisma } from '../config/db';
 import { AppError } from '../utils/errorHandler';
+import { notDeleted } from '../utils/softDelete';
 
 // Get category by slug
 export const getCategoryBySlug = async (
@@ -17,7 +18,7 @@ export const getCategoryBySlug = async (
       include: {
         _count: {
           select: {
-            articles: true,
+            articles: { where: notDeleted },
           },
         },
       },
@@ -0,0 +1,127 @@
+import { Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { AuthRequest } from '../types';
+import { FollowService } from '../services/follow.service';
+import { ArticleContributorService } from '../services/article-contributor.service';
+import { MediaService } from '../services/media.service';
+import { articleCardSelect } from '../utils/articleSelect';
+import { objectIdSchema } from '../utils/validation';
+import { notDeleted } from '../utils/softDelete';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// Timeline of published articles from followed authors, categories and tags (cursor based, newest first)
+export const getFeedHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const cursor = req.query.cursor as string | undefined;
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    const followed = await FollowService.getFollowedIds(req.user.id);
+    const sources: Prisma.ArticleWhereInput[] = [];
+
+    if (followed.authors.length > 0) {
+      sources.push(ArticleContributorService.writtenByAny(followed.authors));
+    }
+    if (followed.categories.length > 0) {
+      sources.push({ categoryId: { in: followed.categories } });
+    }
+    if (followed.tags.length > 0) {
+      sources.push({ tagIds: { hasSome: followed.tags } });
+    }
+
+    if (sources.length === 0) {
+      res.status(200).json({
+        success: true,
+        data: [],
+        meta: { following: 0 },
+        pagination: { limit, hasMore: false, nextCursor: null },
+      });
+      return;
+    }
+
+    if (cursor && !objectIdSchema.safeParse(cursor).success) {
+      throw new AppError('Invalid cursor', 400);
+    }
+
+    // One query over all sources, so an article matching several follows appears once
+    const where: Prisma.ArticleWhereInput = {
+      published: true,
+      ...notDeleted,
+      language: req.user.language,
+      OR: sources,
+    };
+
+    if (cursor) {
+      const cursorArticle = await prisma.article.findFirst({
+        where: { id: cursor, ...where },
+        select: { id: true },
+      });
+
+      if (!cursorArticle) {
+        throw new AppError('Invalid cursor', 400);
+      }
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const rows = await prisma.article.findMany({
+      where,
+      select: {
+        ...articleCardSelect,
+        authorId: true,
+        categoryId: true,
+        tagIds: true,
+        contributors: { select: { userId: true } },
+      },
+      orderBy: [{ publishedAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && {
+        cursor: { id: cursor },
+        skip: 1,
+      }),
+    });
+
+    const hasMore = rows.length > limit;
+    const page = hasMore ? rows.slice(0, limit) : rows;
+
+    // Tell the reader why each article is in their feed
+    const articles = page.map(({ authorId, categoryId, tagIds, contributors, ...article }) => {
+      const writers = [authorId, ...contributors.map((contributor) => contributor.userId)];
+      const followedVia: Array<'author' | 'category' | 'tag'> = [];
+
+      if (writers.some((id) => id && followed.authors.includes(id))) followedVia.push('author');
+      if (categoryId && followed.categories.includes(categoryId)) followedVia.push('category');
+      if (tagIds.some((id) => followed.tags.includes(id))) followedVia.push('tag');
+
+      return { ...article, followedVia };
+    });
+
+    res.status(200).json({
+      success: true,
+      data: await MediaService.attachImageVariants(articles),
+      meta: {
+        following: followed.authors.length + followed.categories.length + followed.tags.length,
+      },
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? page[page.length - 1].id : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
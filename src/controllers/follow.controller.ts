@@ -0,0 +1,95 @@
+import { Response, NextFunction } from 'express';
+import { FollowTarget } from '@prisma/client';
+import { AppError } from '../utils/errorHandler';
+import { AuthRequest } from '../types';
+import { FollowService } from '../services/follow.service';
+import { objectIdSchema } from '../utils/validation';
+import { logger } from '../utils/logger';
+
+// "/follows/author/:id" style paths use the lowercase target name
+const parseTarget = (type: unknown, targetId?: unknown): { targetType: FollowTarget; targetId: string } => {
+  const targetType = typeof type === 'string' ? (type.toUpperCase() as FollowTarget) : undefined;
+
+  if (!targetType || !Object.values(FollowTarget).includes(targetType)) {
+    throw new AppError('Follow type must be one of: author, category, tag', 400);
+  }
+
+  const id = objectIdSchema.safeParse(targetId);
+  if (targetId !== undefined && !id.success) {
+    throw new AppError('Invalid ID format', 400);
+  }
+
+  return { targetType, targetId: id.success ? id.data : '' };
+};
+
+// Get what the current user follows (?type=author|category|tag)
+export const getFollowingHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const targetType = req.query.type ? parseTarget(req.query.type).targetType : undefined;
+    const following = await FollowService.listFollowing(req.user.id, targetType);
+
+    res.status(200).json({
+      success: true,
+      data: following,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Follow an author, category or tag
+export const followHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { targetType, targetId } = parseTarget(req.params.type, req.params.targetId);
+    const follow = await FollowService.follow(req.user.id, targetType, targetId);
+
+    logger.info('Follow added', { userId: req.user.id, targetType, targetId });
+
+    res.status(201).json({
+      success: true,
+      message: 'Followed successfully',
+      data: follow,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Stop following an author, category or tag
+export const unfollowHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { targetType, targetId } = parseTarget(req.params.type, req.params.targetId);
+    await FollowService.unfollow(req.user.id, targetType, targetId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Unfollowed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
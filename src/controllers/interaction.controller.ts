@@ -3,6 +3,8 @@ import { prisma } from '../config/db';
 import { AppError } from '../utils/errorHandler';
 import { getPaginationParams } from '../utils/pagination';
 import { AuthRequest } from '../types';
+import { notDeleted, visibleComment, softDeleteData } from '../utils/softDelete';
+import { NotificationService } from '../services/notification.service';
 
 // Bookmark article
 export const bookmarkArticleHandler = async (
@@ -18,7 +20,7 @@ export const bookmarkArticleHandler = async (
     const { articleId } = req.params;
 
     const article = await prisma.article.findUnique({
-      where: { id: articleId },
+      where: { id: articleId, ...notDeleted },
     });
 
     if (!article) {
@@ -74,12 +76,14 @@ export const getBookmarksHandler = async (
     const total = await prisma.bookmark.count({
       where: {
         userId: req.user.id,
+        article: notDeleted,
       },
     });
 
     const bookmarks = await prisma.bookmark.findMany({
       where: {
         userId: req.user.id,
+        article: notDeleted,
       },
       include: {
         article: {
@@ -95,7 +99,7 @@ export const getBookmarksHandler = async (
             _count: {
               select: {
                 likes: true,
-                comments: true,
+                comments: { where: visibleComment },
               },
             },
           },
@@ -177,7 +181,7 @@ export const likeArticleHandler = async (
     const { articleId } = req.params;
 
     const article = await prisma.article.findUnique({
-      where: { id: articleId },
+      where: { id: articleId, ...notDeleted },
     });
 
     if (!article) {
@@ -209,13 +213,11 @@ export const likeArticleHandler = async (
     });
 
     if (article.authorId && article.authorId !== req.user.id) {
-      await prisma.notification.create({
-        data: {
-          type: 'like',
-          message: `${req.user.name} liked your article "${article.title}"`,
-          userId: article.authorId,
-          relatedId: articleId,
-        },
+      await NotificationService.create({
+        type: 'like',
+        message: `${req.user.name} liked your article "${article.title}"`,
+        userId: article.authorId,
+        relatedId: articleId,
       });
     }
 
@@ -281,7 +283,7 @@ export const addCommentHandler = async (
     const { content, parentId } = req.body;
 
     const article = await prisma.article.findUnique({
-      where: { id: articleId },
+      where: { id: articleId, ...notDeleted },
     });
 
     if (!article) {
@@ -290,7 +292,7 @@ export const addCommentHandler = async (
 
     if (parentId) {
       const parentComment = await prisma.comment.findUnique({
-        where: { id: parentId },
+        where: { id: parentId, ...notDeleted },
       });
 
       if (!parentComment) {
@@ -317,32 +319,28 @@ export const addCommentHandler = async (
     });
 
     if (article.authorId && article.authorId !== req.user.id) {
-      await prisma.notification.create({
-        data: {
-          type: 'comment',
-          message: `${req.user.name} commented on your article "${article.title}"`,
-          userId: article.authorId,
-          relatedId: articleId,
-        },
+      await NotificationService.create({
+        type: 'comment',
+        message: `${req.user.name} commented on your article "${article.title}"`,
+        userId: article.authorId,
+        relatedId: articleId,
       });
     }
 
     if (parentId) {
       const parentCommentData = await prisma.comment.findUnique({ // Ganti nama variabel agar tidak konflik
-        where: { id: parentId },
+        where: { id: parentId, ...notDeleted },
         include: {
           user: true,
         },
       });
 
       if (parentCommentData && parentCommentData.userId !== req.user.id) {
-        await prisma.notification.create({
-          data: {
-            type: 'reply',
-            message: `${req.user.name} replied to your comment`,
-            userId: parentCommentData.userId,
-            relatedId: comment.id,
-          },
+        await NotificationService.create({
+          type: 'reply',
+          message: `${req.user.name} replied to your comment`,
+          userId: parentCommentData.userId,
+          relatedId: comment.id,
         });
       }
     }
@@ -368,7 +366,7 @@ export const getCommentsHandler = async (
     const { page, limit } = getPaginationParams(req);
 
     const article = await prisma.article.findUnique({
-      where: { id: articleId },
+      where: { id: articleId, ...notDeleted },
     });
 
     if (!article) {
@@ -379,6 +377,7 @@ export const getCommentsHandler = async (
       where: {
         articleId,
         parentId: null,
+        ...visibleComment,
       },
     });
 
@@ -386,6 +385,7 @@ export const getCommentsHandler = async (
       where: {
         articleId,
         parentId: null,
+        ...visibleComment,
       },
       include: {
         user: {
@@ -397,7 +397,7 @@ export const getCommentsHandler = async (
         },
         _count: {
           select: {
-            replies: true,
+            replies: { where: visibleComment },
           },
         },
       },
@@ -413,6 +413,7 @@ export const getCommentsHandler = async (
         const replies = await prisma.comment.findMany({
           where: {
             parentId: comment.id,
+            ...visibleComment,
           },
           include: {
             user: {
@@ -466,7 +467,7 @@ export const updateCommentHandler = async (
     const { content } = req.body;
 
     const comment = await prisma.comment.findUnique({
-      where: { id: commentId },
+      where: { id: commentId, ...notDeleted },
     });
 
     if (!comment) {
@@ -517,7 +518,7 @@ export const deleteCommentHandler = async (
     const { commentId } = req.params;
 
     const comment = await prisma.comment.findUnique({
-      where: { id: commentId },
+      where: { id: commentId, ...notDeleted },
     });
 
     if (!comment) {
@@ -528,8 +529,10 @@ export const deleteCommentHandler = async (
       throw new AppError('Not authorized to delete this comment', 403);
     }
 
-    await prisma.comment.delete({
+    // Soft delete so moderators can undo it from the trash
+    await prisma.comment.update({
       where: { id: commentId },
+      data: softDeleteData(req.user.id),
     });
 
     res.status(200).json({
@@ -557,12 +560,14 @@ export const getReadingHistoryHandler = async (
     const total = await prisma.readHistory.count({
       where: {
         userId: req.user.id,
+        article: notDeleted,
       },
     });
 
     const readingHistory = await prisma.readHistory.findMany({
       where: {
         userId: req.user.id,
+        article: notDeleted,
       },
       include: {
         article: {
@@ -578,7 +583,7 @@ export const getReadingHistoryHandler = async (
             _count: {
               select: {
                 likes: true,
-                comments: true,
+                comments: { where: visibleComment },
               },
             },
           },
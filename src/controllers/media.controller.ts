@@ -0,0 +1,245 @@
+import { Request, Response, NextFunction } from 'express';
+import { Media, MediaKind, Role } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { getPaginationParams } from '../utils/pagination';
+import { AuthRequest } from '../types';
+import { MediaService } from '../services/media.service';
+import { ImageService, ImageVariants } from '../services/image.service';
+import { getStorage } from '../services/storage.service';
+import { env } from '../config/env';
+import { logger } from '../utils/logger';
+
+// Local URLs are relative to this server; article/user image fields expect absolute URLs
+const toResponse = (req: Request, media: Media) => {
+  const origin = media.url.startsWith('/') ? `${req.protocol}://${req.get('host')}` : '';
+  const variants = (media.variants as ImageVariants | null) || {};
+
+  return {
+    ...media,
+    absoluteUrl: `${origin}${media.url}`,
+    srcset: ImageService.buildSrcset(variants, origin) || null,
+  };
+};
+
+const canManage = (req: AuthRequest, media: Media): boolean =>
+  req.user?.role === Role.ADMIN || media.ownerId === req.user?.id;
+
+// Upload an article image
+export const uploadArticleImageHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (!req.file) {
+      throw new AppError('No image uploaded. Use the "image" form field.', 400);
+    }
+
+    const media = await MediaService.createFromUpload(req.file, req.user.id, MediaKind.ARTICLE_IMAGE);
+
+    logger.info('Article image uploaded', {
+      mediaId: media.id,
+      userId: req.user.id,
+      size: media.size,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Image uploaded successfully',
+      data: toResponse(req, media),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Upload avatar and set it as the profile image
+export const uploadAvatarHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (!req.file) {
+      throw new AppError('No image uploaded. Use the "avatar" form field.', 400);
+    }
+
+    const media = await MediaService.createFromUpload(req.file, req.user.id, MediaKind.AVATAR);
+    const data = toResponse(req, media);
+
+    await prisma.user.update({
+      where: { id: req.user.id },
+      data: { image: data.absoluteUrl },
+    });
+
+    logger.info('Avatar uploaded', { mediaId: media.id, userId: req.user.id });
+
+    res.status(201).json({
+      success: true,
+      message: 'Avatar updated successfully',
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get media library (own uploads; admins may see everyone's)
+export const getMediaHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { page, limit } = getPaginationParams(req);
+    const { kind, ownerId } = req.query;
+
+    if (kind && !Object.values(MediaKind).includes(kind as MediaKind)) {
+      throw new AppError(`Invalid kind. Use one of: ${Object.values(MediaKind).join(', ')}`, 400);
+    }
+
+    const isAdmin = req.user.role === Role.ADMIN;
+
+    const { media, total } = await MediaService.list({
+      ownerId: isAdmin ? (ownerId as string | undefined) : req.user.id,
+      kind: kind as MediaKind | undefined,
+      page,
+      limit,
+    });
+
+    const data = await Promise.all(
+      media.map(async (item) => ({
+        ...toResponse(req, item),
+        usage: await MediaService.getUsage(item),
+      }))
+    );
+
+    res.status(200).json({
+      success: true,
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single media item with usage details
+export const getMediaByIdHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const media = await MediaService.findById(req.params.id);
+
+    if (!media || !canManage(req, media)) {
+      throw new AppError('Media not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...toResponse(req, media),
+        usage: await MediaService.getUsage(media),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a time-limited URL (private buckets); local files return their public URL
+export const getMediaSignedUrlHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const media = await MediaService.findById(req.params.id);
+
+    if (!media || !canManage(req, media)) {
+      throw new AppError('Media not found', 404);
+    }
+
+    // S3 caps presigned URLs at 7 days
+    const expiresIn = Math.min(
+      Math.max(parseInt(req.query.expiresIn as string, 10) || env.SIGNED_URL_EXPIRES, 60),
+      7 * 24 * 60 * 60
+    );
+    const variant = req.query.variant as string | undefined;
+    const variants = (media.variants as ImageVariants | null) || {};
+    const key = variant ? variants[variant as keyof ImageVariants]?.path : media.path;
+
+    if (!key) {
+      throw new AppError('Variant not found', 404);
+    }
+
+    const url = await getStorage().getSignedUrl(key, expiresIn);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        url,
+        expiresIn,
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete media (refused while articles still reference it)
+export const deleteMediaHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const media = await MediaService.findById(req.params.id);
+
+    if (!media || !canManage(req, media)) {
+      throw new AppError('Media not found', 404);
+    }
+
+    const usage = await MediaService.getUsage(media);
+
+    if (MediaService.isBlockingDelete(usage)) {
+      res.status(409).json({
+        success: false,
+        message: 'This image is still used and cannot be deleted. Remove it from these articles first.',
+        code: 'MEDIA_IN_USE',
+        data: usage,
+      });
+      return;
+    }
+
+    await MediaService.delete(media, usage);
+
+    res.status(200).json({
+      success: true,
+      message: 'Media deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,294 @@
+import { Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { objectIdSchema } from '../utils/validation';
+import { AuthRequest } from '../types';
+import { NotificationService } from '../services/notification.service';
+import { logger } from '../utils/logger';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const STREAM_HEARTBEAT_MS = 25000;
+
+// Live notification stream (Server-Sent Events)
+export const streamNotificationsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const userId = req.user.id;
+    const unreadCount = await prisma.notification.count({
+      where: { userId, read: false },
+    });
+
+    res.status(200);
+    res.set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    // The stream is long lived; keep the server timeout from closing it
+    req.socket.setTimeout(0);
+
+    const send = (event: string, data: unknown, id?: string) => {
+      if (id) {
+        res.write(`id: ${id}\n`);
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    res.write('retry: 5000\n\n');
+    send('connected', { unreadCount });
+
+    const unsubscribe = NotificationService.subscribe(userId, (notification) => {
+      send('notification', notification, notification.id);
+    });
+
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, STREAM_HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      logger.debug('Notification stream closed', { userId });
+    });
+
+    logger.debug('Notification stream opened', {
+      userId,
+      openStreams: NotificationService.getListenerCount(userId),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get user notifications (cursor based, newest first)
+export const getNotificationsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { cursor, type, unread } = req.query;
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: req.user.id,
+    };
+
+    if (type) {
+      where.type = type as string;
+    }
+
+    if (unread === 'true') {
+      where.read = false;
+    }
+
+    if (cursor) {
+      if (!objectIdSchema.safeParse(cursor).success) {
+        throw new AppError('Invalid cursor', 400);
+      }
+
+      const cursorNotification = await prisma.notification.findFirst({
+        where: { id: cursor as string, userId: req.user.id },
+        select: { id: true },
+      });
+
+      if (!cursorNotification) {
+        throw new AppError('Invalid cursor', 400);
+      }
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const notifications = await prisma.notification.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor && {
+        cursor: { id: cursor as string },
+        skip: 1,
+      }),
+    });
+
+    const hasMore = notifications.length > limit;
+    const data = hasMore ? notifications.slice(0, limit) : notifications;
+
+    const unreadCount = await prisma.notification.count({
+      where: { userId: req.user.id, read: false },
+    });
+
+    res.status(200).json({
+      success: true,
+      data,
+      meta: {
+        unreadCount,
+      },
+      pagination: {
+        limit,
+        hasMore,
+        nextCursor: hasMore ? data[data.length - 1].id : null,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get unread notification count
+export const getUnreadCountHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: req.user.id,
+      read: false,
+    };
+
+    if (req.query.type) {
+      where.type = req.query.type as string;
+    }
+
+    const count = await prisma.notification.count({ where });
+
+    res.status(200).json({
+      success: true,
+      data: { count },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Mark a single notification as read
+export const markNotificationReadHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { id } = req.params;
+
+    if (!objectIdSchema.safeParse(id).success) {
+      throw new AppError('Invalid notification ID', 400);
+    }
+
+    const notification = await prisma.notification.findUnique({
+      where: { id },
+    });
+
+    if (!notification || notification.userId !== req.user.id) {
+      throw new AppError('Notification not found', 404);
+    }
+
+    const updatedNotification = notification.read
+      ? notification
+      : await prisma.notification.update({
+          where: { id },
+          data: { read: true },
+        });
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification marked as read',
+      data: updatedNotification,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Mark all notifications as read
+export const markAllNotificationsReadHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const where: Prisma.NotificationWhereInput = {
+      userId: req.user.id,
+      read: false,
+    };
+
+    if (req.body?.type) {
+      where.type = req.body.type;
+    }
+
+    const result = await prisma.notification.updateMany({
+      where,
+      data: { read: true },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'All notifications marked as read',
+      data: { updated: result.count },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete notification
+export const deleteNotificationHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { id } = req.params;
+
+    if (!objectIdSchema.safeParse(id).success) {
+      throw new AppError('Invalid notification ID', 400);
+    }
+
+    const result = await prisma.notification.deleteMany({
+      where: { id, userId: req.user.id },
+    });
+
+    if (result.count === 0) {
+      throw new AppError('Notification not found', 404);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
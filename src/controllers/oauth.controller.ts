@@ -0,0 +1,157 @@
+import { Request, Response, NextFunction } from 'express';
+import { getOAuthProvider } from '../config/passport';
+import { env } from '../config/env';
+import { AppError } from '../utils/errorHandler';
+import {
+  setAuthCookies,
+  generateTwoFactorChallengeToken,
+  setTwoFactorChallengeCookie,
+  REFRESH_COOKIE_PATH,
+} from '../utils/jwt';
+import { OAuthService, OAUTH_STATE_TTL } from '../services/oauth.service';
+import { SessionService } from '../services/session.service';
+import { TwoFactorService } from '../services/two-factor.service';
+import { AuditService } from '../services/audit.service';
+import { logger } from '../utils/logger';
+
+const STATE_COOKIE = 'oauth_state';
+
+const stateCookieOptions = {
+  httpOnly: true,
+  signed: true,
+  secure: env.NODE_ENV === 'production',
+  // The callback is a top-level redirect from the provider, which lax cookies survive
+  sameSite: 'lax' as const,
+  path: REFRESH_COOKIE_PATH,
+};
+
+// Only same-site relative paths, so the callback cannot be turned into an open redirect
+const sanitizeRedirect = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.startsWith('/') || value.startsWith('//') || value.includes('\\')) {
+    return null;
+  }
+  return value.slice(0, 500);
+};
+
+const frontendCallbackUrl = (params: Record<string, string>): string =>
+  `${env.FRONTEND_URL}/auth/callback?${new URLSearchParams(params).toString()}`;
+
+// Start OAuth login: redirect to the provider consent screen
+export const oauthStartHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const config = getOAuthProvider(req.params.provider);
+
+    if (!config) {
+      throw new AppError(`${req.params.provider} login is not configured`, 503);
+    }
+
+    const { url, state } = await OAuthService.createAuthorizationRequest(
+      config,
+      sanitizeRedirect(req.query.redirect)
+    );
+
+    res.cookie(STATE_COOKIE, state, {
+      ...stateCookieOptions,
+      maxAge: OAUTH_STATE_TTL * 1000,
+    });
+
+    res.redirect(302, url);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Provider callback: validate state, sign the user in and return to the frontend
+export const oauthCallbackHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const providerName = req.params.provider;
+  const cookieState = req.signedCookies?.[STATE_COOKIE];
+
+  res.clearCookie(STATE_COOKIE, stateCookieOptions);
+
+  try {
+    const config = getOAuthProvider(providerName);
+
+    if (!config) {
+      throw new AppError(`${providerName} login is not configured`, 503);
+    }
+
+    // User denied consent or the provider rejected the request
+    if (req.query.error) {
+      throw new AppError(String(req.query.error_description || req.query.error), 400);
+    }
+
+    const { user, redirectTo } = await OAuthService.handleCallback(config, {
+      code: req.query.code as string | undefined,
+      state: req.query.state as string | undefined,
+      cookieState,
+    });
+
+    // Provider sign-in counts as the first factor only
+    if (await TwoFactorService.isEnabled(user.id)) {
+      setTwoFactorChallengeCookie(res, generateTwoFactorChallengeToken(user.id, false));
+      res.redirect(
+        302,
+        frontendCallbackUrl({
+          status: 'two_factor',
+          provider: config.name,
+          ...(redirectTo && { redirect: redirectTo }),
+        })
+      );
+      return;
+    }
+
+    const tokens = await SessionService.createSession(user, req);
+    setAuthCookies(res, tokens);
+
+    await AuditService.logLogin(user.id, req.ip || 'unknown', req.get('User-Agent') || 'unknown', true);
+
+    logger.info('OAuth login successful', {
+      userId: user.id,
+      provider: config.name,
+      sessionId: tokens.session.id,
+    });
+
+    res.redirect(
+      302,
+      frontendCallbackUrl({
+        status: 'success',
+        provider: config.name,
+        ...(redirectTo && { redirect: redirectTo }),
+      })
+    );
+  } catch (error) {
+    const statusCode = error instanceof AppError ? error.statusCode : 500;
+    const message = error instanceof AppError ? error.message : 'Sign in failed';
+
+    logger.warn('OAuth login failed', {
+      provider: providerName,
+      statusCode,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      ip: req.ip,
+    });
+
+    // The browser is mid-redirect, so report the failure to the frontend instead of as JSON
+    if (!res.headersSent) {
+      res.redirect(
+        302,
+        frontendCallbackUrl({
+          status: 'error',
+          provider: providerName,
+          code: statusCode === 409 ? 'ACCOUNT_EXISTS' : 'OAUTH_FAILED',
+          message,
+        })
+      );
+      return;
+    }
+
+    next(error);
+  }
+};
@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../utils/errorHandler';
+import { AuthRequest } from '../types';
+import { clearToken, setAuthCookies } from '../utils/jwt';
+import { SessionService } from '../services/session.service';
+import { AuditService } from '../services/audit.service';
+import { logger } from '../utils/logger';
+import { env } from '../config/env';
+
+// Rotate refresh token and issue a new access token
+export const refreshTokenHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const refreshToken = req.cookies?.refreshToken || req.body?.refreshToken;
+
+    if (!refreshToken) {
+      next(new AppError('Refresh token required', 401));
+      return;
+    }
+
+    const tokens = await SessionService.rotate(refreshToken, req);
+    setAuthCookies(res, tokens);
+
+    res.setHeader('X-Auth-Status', 'refreshed');
+
+    res.status(200).json({
+      success: true,
+      message: 'Token refreshed',
+      data: {
+        accessTokenExpiresIn: env.ACCESS_TOKEN_EXPIRES,
+        refreshTokenExpiresAt: tokens.refreshExpiresAt,
+      },
+    });
+  } catch (error) {
+    // Any failure means the client must log in again
+    clearToken(res);
+    res.setHeader('X-Clear-Token', 'true');
+    logger.warn('Refresh token rejected', {
+      ip: req.ip,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    next(error);
+  }
+};
+
+// List active sessions for the current user
+export const getSessionsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      next(new AppError('Authentication required', 401));
+      return;
+    }
+
+    const sessions = await SessionService.listActive(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map((session) => ({
+        ...session,
+        current: session.id === req.sessionId,
+      })),
+    });
+  } catch (error) {
+    logger.error('Get sessions error', { error, userId: req.user?.id });
+    next(error);
+  }
+};
+
+// Revoke a single session (sign out a device)
+export const revokeSessionHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      next(new AppError('Authentication required', 401));
+      return;
+    }
+
+    const { id } = req.params;
+    const revoked = await SessionService.revoke(id, 'user_revoked', req.user.id);
+
+    if (!revoked) {
+      next(new AppError('Session not found', 404));
+      return;
+    }
+
+    await AuditService.logSecurityEvent('session_revoked', { sessionId: id }, req.ip || 'unknown', req.user.id);
+
+    if (id === req.sessionId) {
+      clearToken(res);
+      res.setHeader('X-Clear-Token', 'true');
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    logger.error('Revoke session error', { error, userId: req.user?.id, sessionId: req.params.id });
+    next(error);
+  }
+};
+
+// Revoke every session except the current one
+export const revokeOtherSessionsHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      next(new AppError('Authentication required', 401));
+      return;
+    }
+
+    const count = await SessionService.revokeAllForUser(req.user.id, 'user_revoked_all', req.sessionId);
+
+    await AuditService.logSecurityEvent('sessions_revoked', { count }, req.ip || 'unknown', req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Other sessions revoked',
+      data: { revoked: count },
+    });
+  } catch (error) {
+    logger.error('Revoke sessions error', { error, userId: req.user?.id });
+    next(error);
+  }
+};
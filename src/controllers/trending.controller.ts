@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { Language } from '@prisma/client';
+import { AppError } from '../utils/errorHandler';
+import { TrendingService } from '../services/trending.service';
+import { MediaService } from '../services/media.service';
+import { TrendingData } from '../types/api.types';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+// Get trending articles, categories, tags and authors for a language
+export const getTrendingHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const language = (req.query.language as Language) || Language.ENGLISH;
+    const limit = Math.min(
+      Math.max(parseInt(req.query.limit as string, 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+
+    if (!Object.values(Language).includes(language)) {
+      throw new AppError('Invalid language', 400);
+    }
+
+    const { computedAt, ...trending } = await TrendingService.getTrending(language, limit);
+
+    const data: TrendingData = {
+      ...trending,
+      articles: await MediaService.attachImageVariants(trending.articles),
+    };
+
+    res.status(200).json({
+      success: true,
+      data,
+      meta: { language, computedAt },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,256 @@
+import { Request, Response, NextFunction } from 'express';
+import bcrypt from 'bcryptjs';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { AppError } from '../utils/errorHandler';
+import { AuthRequest } from '../types';
+import {
+  setAuthCookies,
+  verifyTwoFactorChallengeToken,
+  clearTwoFactorChallengeCookie,
+  TWO_FACTOR_CHALLENGE_COOKIE,
+} from '../utils/jwt';
+import { cacheIncrement, revokeTokenId } from '../utils/cache';
+import { TwoFactorService } from '../services/two-factor.service';
+import { SessionService } from '../services/session.service';
+import { LoginSecurityService } from '../services/login-security.service';
+import { AuditService } from '../services/audit.service';
+import { logger } from '../utils/logger';
+import { notDeleted } from '../utils/softDelete';
+
+// A 6-digit code space is small, so each challenge only gets a few guesses
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// Get two-factor status
+export const getTwoFactorStatusHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const status = await TwoFactorService.getStatus(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...status,
+        required: env.REQUIRE_ADMIN_2FA && req.user.role === 'ADMIN',
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Begin enrollment - returns the secret and otpauth:// URI for the QR code
+export const setupTwoFactorHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { secret, otpauthUrl } = await TwoFactorService.beginEnrollment(req.user);
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: { secret, otpauthUrl },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm enrollment with a first code - returns recovery codes (shown once)
+export const confirmTwoFactorHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      throw new AppError('Verification code is required', 400);
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(req.user.id, code.trim());
+
+    // Sessions that never passed the second factor should not outlive enrollment
+    await SessionService.revokeAllForUser(req.user.id, 'two_factor_enabled', req.sessionId);
+    await AuditService.logSecurityEvent('two_factor_enabled', {}, req.ip, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store these recovery codes somewhere safe.',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Disable two-factor - requires the password (when set) and a current code
+export const disableTwoFactorHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { password, code } = req.body;
+    if (!code || typeof code !== 'string') {
+      throw new AppError('Two-factor code is required', 400);
+    }
+
+    if (env.REQUIRE_ADMIN_2FA && req.user.role === 'ADMIN') {
+      throw new AppError('Two-factor authentication is required for admin accounts', 403);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { password: true },
+    });
+
+    if (user?.password && (!password || !(await bcrypt.compare(password, user.password)))) {
+      throw new AppError('Password is incorrect', 401);
+    }
+
+    await TwoFactorService.disable(req.user.id, code);
+    await AuditService.logSecurityEvent('two_factor_disabled', {}, req.ip, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace recovery codes - all previous codes stop working
+export const regenerateRecoveryCodesHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      throw new AppError('Two-factor code is required', 400);
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(req.user.id, code);
+    await AuditService.logSecurityEvent('recovery_codes_regenerated', {}, req.ip, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'New recovery codes generated',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Second login step - exchange challenge token + code for a session
+export const verifyTwoFactorLoginHandler = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+    // Password logins return the token in the body; OAuth logins leave it in a cookie
+    const challengeToken = req.body.challengeToken || req.signedCookies?.[TWO_FACTOR_CHALLENGE_COOKIE];
+
+    if (!challengeToken || !code || typeof code !== 'string') {
+      throw new AppError('Challenge token and code are required', 400);
+    }
+
+    const challenge = await verifyTwoFactorChallengeToken(challengeToken);
+    if (!challenge) {
+      clearTwoFactorChallengeCookie(res);
+      throw new AppError('Login challenge expired. Please sign in again.', 401);
+    }
+
+    const remainingSeconds = Math.max(challenge.exp - Math.floor(Date.now() / 1000), 1);
+
+    // Accounts moved to the trash after the password step cannot finish signing in
+    const user = await prisma.user.findFirst({
+      where: { id: challenge.userId, ...notDeleted },
+      include: { preference: true },
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const lockStatus = await LoginSecurityService.getLockStatus(user.id);
+    if (lockStatus.locked) {
+      res.setHeader('Retry-After', lockStatus.retryAfterSeconds.toString());
+      throw new AppError('Account temporarily locked due to too many failed login attempts. Please try again later.', 423);
+    }
+
+    try {
+      await TwoFactorService.verify(user.id, code);
+    } catch (error) {
+      // Wrong codes count towards the same per-account lockout as wrong passwords
+      await LoginSecurityService.recordFailure(user, req.ip || 'unknown', req.get('User-Agent') || '');
+
+      const attempts = await cacheIncrement(`2fa:attempts:${challenge.jti}`, 1, remainingSeconds);
+
+      if (attempts >= MAX_CHALLENGE_ATTEMPTS) {
+        await revokeTokenId(challenge.jti, remainingSeconds);
+        await AuditService.logSecurityEvent('two_factor_attempts_exceeded', { attempts }, req.ip, user.id);
+      }
+
+      await AuditService.logLogin(user.id, req.ip || 'unknown', req.get('User-Agent') || '', false);
+      throw error;
+    }
+
+    // Challenge tokens are single use
+    await revokeTokenId(challenge.jti, remainingSeconds);
+    clearTwoFactorChallengeCookie(res);
+    await LoginSecurityService.recordSuccess(user.id);
+
+    const tokens = await SessionService.createSession(user, req, { rememberMe: challenge.rememberMe });
+    setAuthCookies(res, tokens);
+
+    await AuditService.logLogin(user.id, req.ip || 'unknown', req.get('User-Agent') || '', true);
+
+    logger.info('User logged in with two-factor authentication', {
+      userId: user.id,
+      ip: req.ip,
+      sessionId: tokens.session.id,
+    });
+
+    const { password: _, ...userData } = user;
+
+    res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: userData,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
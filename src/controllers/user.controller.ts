@@ -0,0 +1,234 @@
+import { Response, NextFunction } from 'express';
+import { FollowTarget, Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { getPaginationParams } from '../utils/pagination';
+import { AuthRequest } from '../types';
+import { ArticleContributorService } from '../services/article-contributor.service';
+import { FollowService } from '../services/follow.service';
+import { MediaService } from '../services/media.service';
+import { notDeleted, visibleComment } from '../utils/softDelete';
+
+// Fields shown for each article in profile lists
+const profileArticleSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  summary: true,
+  image: true,
+  publishedAt: true,
+  viewCount: true,
+  category: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  _count: {
+    select: {
+      likes: true,
+      comments: { where: visibleComment },
+    },
+  },
+} as const;
+
+const publicArticleWhere = (userId: string): Prisma.ArticleWhereInput => ({
+  AND: [{ published: true, ...notDeleted }, ArticleContributorService.writtenBy(userId)],
+});
+
+const findPublicUser = async (username: string) => {
+  const user = await prisma.user.findFirst({
+    where: { username, ...notDeleted },
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      bio: true,
+      image: true,
+      role: true,
+      createdAt: true,
+      preference: {
+        select: { activityPrivate: true },
+      },
+    },
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  return user;
+};
+
+// Reading activity is private unless the user opted in; they and admins can always see it
+const canSeeActivity = (user: Awaited<ReturnType<typeof findPublicUser>>, viewer?: AuthRequest['user']) =>
+  user.preference?.activityPrivate === false || viewer?.id === user.id || viewer?.role === Role.ADMIN;
+
+// Get a user's public profile
+export const getUserProfileHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await findPublicUser(req.params.username);
+    const where = publicArticleWhere(user.id);
+
+    const [articleCount, totalLikes, follows, viewerFollow] = await Promise.all([
+      prisma.article.count({ where }),
+      prisma.like.count({ where: { article: where } }),
+      FollowService.getCounts(user.id),
+      req.user
+        ? prisma.follow.findFirst({
+            where: { userId: req.user.id, targetType: FollowTarget.AUTHOR, targetId: user.id },
+            select: { id: true },
+          })
+        : null,
+    ]);
+
+    const { preference, ...profile } = user;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...profile,
+        stats: {
+          articles: articleCount,
+          likes: totalLikes,
+          followers: follows.followers,
+          following: follows.following,
+        },
+        isFollowing: !!viewerFollow,
+        activityPrivate: preference?.activityPrivate !== false,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get published articles the user wrote or co-wrote
+export const getUserArticlesHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await findPublicUser(req.params.username);
+    const { page, limit } = getPaginationParams(req);
+    const where = publicArticleWhere(user.id);
+
+    const [articles, total] = await Promise.all([
+      prisma.article.findMany({
+        where,
+        select: profileArticleSelect,
+        orderBy: { publishedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.article.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: await MediaService.attachImageVariants(articles),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a user's bookmarks, unless their activity is private
+export const getUserBookmarksHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await findPublicUser(req.params.username);
+
+    if (!canSeeActivity(user, req.user)) {
+      throw new AppError("This user's activity is private", 403);
+    }
+
+    const { page, limit } = getPaginationParams(req);
+    const where = { userId: user.id, article: { published: true, ...notDeleted } };
+
+    const [bookmarks, total] = await Promise.all([
+      prisma.bookmark.findMany({
+        where,
+        select: { createdAt: true, article: { select: profileArticleSelect } },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.bookmark.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: await MediaService.attachImageVariants(
+        bookmarks.map((bookmark) => ({ ...bookmark.article, bookmarkedAt: bookmark.createdAt }))
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a user's reading history, unless their activity is private
+export const getUserReadingHistoryHandler = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await findPublicUser(req.params.username);
+
+    if (!canSeeActivity(user, req.user)) {
+      throw new AppError("This user's activity is private", 403);
+    }
+
+    const { page, limit } = getPaginationParams(req);
+    const where = { userId: user.id, article: { published: true, ...notDeleted } };
+
+    const [history, total] = await Promise.all([
+      prisma.readHistory.findMany({
+        where,
+        select: { readAt: true, article: { select: profileArticleSelect } },
+        orderBy: { readAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.readHistory.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: await MediaService.attachImageVariants(
+        history.map((entry) => ({ ...entry.article, readAt: entry.readAt }))
+      ),
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
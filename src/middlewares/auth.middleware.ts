@@ -6,6 +6,9 @@ import { verifyToken, isTokenBlacklisted } from '../utils/jwt';
 import { AuthRequest, User } from '../types';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
+import { notDeleted } from '../utils/softDelete';
+import { SessionService } from '../services/session.service';
+import { TwoFactorService } from '../services/two-factor.service';
 
 // Enhanced middleware to protect routes requiring authentication
 export const protect: RequestHandler = async (req, res, next) => {
@@ -51,7 +54,7 @@ export const protect: RequestHandler = async (req, res, next) => {
     }
 
     // Check if token is blacklisted
-    if (isTokenBlacklisted(token)) {
+    if (await isTokenBlacklisted(token)) {
       console.log('❌ Token is blacklisted');
       
       // Clear blacklisted token cookie
@@ -75,7 +78,7 @@ export const protect: RequestHandler = async (req, res, next) => {
     }
 
     // Verify token
-    const decoded = verifyToken(token);
+    const decoded = await verifyToken(token);
     if (!decoded || !decoded.userId) {
       console.log('❌ Invalid token:', {
         hasDecoded: !!decoded,
@@ -107,16 +110,17 @@ export const protect: RequestHandler = async (req, res, next) => {
     console.log('✅ Token verified for user:', decoded.userId);
 
     // Get user from database
+    // Accounts in the trash are treated as gone
     const user = await prisma.user.findUnique({
-      where: { id: decoded.userId },
+      where: { id: decoded.userId, ...notDeleted },
       include: {
         preference: true,
         _count: {
           select: {
-            articles: true,
+            articles: { where: notDeleted },
             bookmarks: true,
             likes: true,
-            comments: true,
+            comments: { where: notDeleted },
           },
         },
       },
@@ -146,6 +150,48 @@ export const protect: RequestHandler = async (req, res, next) => {
       return next(new AppError('User no longer exists. Please log in again.', 401));
     }
 
+    // Session-bound tokens die with their session (logout, revoke, reuse detection)
+    if (decoded.sid && !(await SessionService.isActive(decoded.sid))) {
+      res.clearCookie('token', {
+        httpOnly: true,
+        secure: env.NODE_ENV === 'production',
+        sameSite: env.NODE_ENV === 'production' ? 'lax' : 'none',
+        path: '/',
+      });
+
+      res.setHeader('X-Auth-Status', 'session_revoked');
+      res.setHeader('X-Clear-Token', 'true');
+
+      logger.warn('Auth middleware: Session revoked or expired', {
+        userId: decoded.userId,
+        sessionId: decoded.sid,
+        path: req.path,
+      });
+
+      return next(new AppError('Session has ended. Please log in again.', 401));
+    }
+
+    // Reject tokens issued before the last password reset
+    if (isIssuedBeforePasswordChange(decoded.iat, user.passwordChangedAt)) {
+      res.clearCookie('token', {
+        httpOnly: true,
+        secure: env.NODE_ENV === 'production',
+        sameSite: env.NODE_ENV === 'production' ? 'lax' : 'none',
+        path: '/',
+      });
+
+      res.setHeader('X-Auth-Status', 'password_changed');
+      res.setHeader('X-Clear-Token', 'true');
+
+      logger.warn('Auth middleware: Token issued before password change', {
+        userId: user.id,
+        path: req.path,
+        ip: req.ip,
+      });
+
+      return next(new AppError('Password was changed. Please log in again.', 401));
+    }
+
     console.log('✅ User found:', {
       id: user.id,
       email: user.email,
@@ -157,6 +203,7 @@ export const protect: RequestHandler = async (req, res, next) => {
 
     // Attach user to request
     authReq.user = userWithoutPassword as User;
+    authReq.sessionId = decoded.sid;
 
     // Add success headers
     res.setHeader('X-Auth-Status', 'authenticated');
@@ -195,8 +242,19 @@ export const protect: RequestHandler = async (req, res, next) => {
   }
 };
 
+const isIssuedBeforePasswordChange = (
+  issuedAt: number | undefined,
+  passwordChangedAt: Date | null
+): boolean => {
+  if (!passwordChangedAt || !issuedAt) {
+    return false;
+  }
+  // iat has second precision
+  return issuedAt < Math.floor(passwordChangedAt.getTime() / 1000);
+};
+
 // Middleware to restrict access to admin only
-export const isAdmin: RequestHandler = (req, res, next) => {
+export const isAdmin: RequestHandler = async (req, res, next) => {
   const authReq = req as AuthRequest;
   
   console.log('🔐 Admin check for user:', {
@@ -214,6 +272,27 @@ export const isAdmin: RequestHandler = (req, res, next) => {
   }
 
   if (authReq.user.role === 'ADMIN') {
+    // Policy: admin actions require an enrolled second factor
+    if (env.REQUIRE_ADMIN_2FA) {
+      try {
+        if (!(await TwoFactorService.isEnabled(authReq.user.id))) {
+          logger.warn('Admin access denied - two-factor not enabled', {
+            userId: authReq.user.id,
+            path: req.path,
+            ip: req.ip,
+          });
+          return res.status(403).json({
+            success: false,
+            message: 'Two-factor authentication must be enabled to access admin features',
+            code: 'TWO_FACTOR_REQUIRED',
+            setup: '/api/auth/2fa/setup',
+          });
+        }
+      } catch (error) {
+        return next(error);
+      }
+    }
+
     console.log('✅ Admin access granted');
     logger.info('Admin access granted', {
       userId: authReq.user.id,
@@ -237,7 +316,34 @@ export const isAdmin: RequestHandler = (req, res, next) => {
   }
 };
 
-// Middleware to restrict access to admin or author
+// Middleware to require a verified email (only enforced when REQUIRE_EMAIL_VERIFICATION is on)
+export const requireVerifiedEmail: RequestHandler = (req, res, next) => {
+  const authReq = req as AuthRequest;
+
+  if (!env.REQUIRE_EMAIL_VERIFICATION) {
+    return next();
+  }
+
+  if (!authReq.user) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  if (!authReq.user.emailVerified) {
+    logger.warn('Unverified email blocked', {
+      userId: authReq.user.id,
+      path: req.path,
+    });
+    return res.status(403).json({
+      success: false,
+      message: 'Please verify your email address to continue',
+      code: 'EMAIL_NOT_VERIFIED',
+    });
+  }
+
+  next();
+};
+
+// Middleware to restrict access to authors, editors and admins
 export const isAuthor: RequestHandler = (req, res, next) => {
   const authReq = req as AuthRequest;
   
@@ -255,7 +361,7 @@ export const isAuthor: RequestHandler = (req, res, next) => {
     return next(new AppError('Authentication required', 401));
   }
 
-  if (authReq.user.role === 'ADMIN' || authReq.user.role === 'AUTHOR') {
+  if (authReq.user.role === 'ADMIN' || authReq.user.role === 'EDITOR' || authReq.user.role === 'AUTHOR') {
     console.log('✅ Author access granted');
     logger.info('Author access granted', {
       userId: authReq.user.id,
@@ -274,7 +380,7 @@ export const isAuthor: RequestHandler = (req, res, next) => {
     });
     return res.status(403).json({ 
       success: false, 
-      message: 'Access denied: Author or Admin privileges required',
+      message: 'Access denied: Author, Editor or Admin privileges required',
       code: 'INSUFFICIENT_PRIVILEGES',
     });
   }
@@ -388,30 +494,33 @@ export const optionalAuth: RequestHandler = async (req, res, next) => {
       token = req.cookies.token;
     }
 
-    if (token && !isTokenBlacklisted(token)) {
+    if (token) {
       // Verify token
-      const decoded = verifyToken(token);
+      const decoded = await verifyToken(token);
       if (decoded && decoded.userId) {
         // Get user from database
         const user = await prisma.user.findUnique({
-          where: { id: decoded.userId },
+          where: { id: decoded.userId, ...notDeleted },
           include: {
             preference: true,
             _count: {
               select: {
-                articles: true,
+                articles: { where: notDeleted },
                 bookmarks: true,
                 likes: true,
-                comments: true,
+                comments: { where: notDeleted },
               },
             },
           },
         });
 
-        if (user) {
+        const sessionActive = !decoded.sid || (await SessionService.isActive(decoded.sid));
+
+        if (user && sessionActive && !isIssuedBeforePasswordChange(decoded.iat, user.passwordChangedAt)) {
           // Remove password from user object
           const { password, ...userWithoutPassword } = user;
           authReq.user = userWithoutPassword as User;
+          authReq.sessionId = decoded.sid;
           
           console.log('✅ Optional auth: User authenticated:', user.id);
           res.setHeader('X-Auth-Status', 'authenticated');
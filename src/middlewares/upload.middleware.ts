@@ -5,6 +5,7 @@ import { Request, Response, NextFunction } from 'express';
 import { env } from '../config/env';
 import { logger } from '../utils/logger';
 import { AppError } from '../utils/errorHandler';
+import { getStorage } from '../services/storage.service';
 
 // Ensure upload directory exists
 const uploadDir = path.join(process.cwd(), env.UPLOAD_DIR);
@@ -17,6 +18,25 @@ const allowedImageTypes = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
 const allowedDocumentTypes = ['application/pdf', 'text/plain', 'application/msword'];
 const allowedTypes = [...allowedImageTypes, ...allowedDocumentTypes];
 
+// Extensions stored (and served) for each accepted type; the client's filename never picks the extension
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+// Content types /uploads serves inline (.jpeg is still around from before extensions were normalized)
+export const IMAGE_TYPES_BY_EXTENSION: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(IMAGE_EXTENSIONS).map(([type, extension]) => [extension, type])),
+  '.jpeg': 'image/jpeg',
+};
+const fileExtensions: Record<string, string> = {
+  ...IMAGE_EXTENSIONS,
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'application/msword': '.doc',
+};
+
 // File filter function
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   // Check file type
@@ -39,7 +59,9 @@ const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilt
     /\.cmd$/i,
     /\.sh$/i,
     /\.js$/i,
-    /\.html$/i,
+    /\.html?$/i,
+    /\.xhtml$/i,
+    /\.svg$/i,
   ];
 
   if (suspiciousPatterns.some(pattern => pattern.test(file.originalname))) {
@@ -72,8 +94,8 @@ const storage = multer.diskStorage({
   filename: (req: Request, file: Express.Multer.File, cb) => {
     // Generate unique filename
     const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const extension = path.extname(file.originalname).toLowerCase();
-    const baseName = path.basename(file.originalname, extension)
+    const extension = fileExtensions[file.mimetype] || '.bin';
+    const baseName = path.basename(file.originalname, path.extname(file.originalname))
       .replace(/[^a-zA-Z0-9]/g, '_')
       .substring(0, 50);
     
@@ -322,42 +344,31 @@ export const handleUploadErrors = (req: Request, res: Response, next: NextFuncti
   };
 };
 
-// Get file URL helper
+// Get file URL helper (local path, CDN or bucket URL depending on the storage driver)
 export const getFileUrl = (filepath: string): string => {
-  return `/uploads/${filepath.replace(/\\/g, '/')}`;
+  return getStorage().getPublicUrl(filepath);
 };
 
 // Delete file helper
-export const deleteFile = (filepath: string): void => {
-  const fullPath = path.join(uploadDir, filepath);
-  if (fs.existsSync(fullPath)) {
-    try {
-      fs.unlinkSync(fullPath);
-      logger.info('File deleted', { path: fullPath });
-    } catch (error) {
-      logger.error('Failed to delete file', { 
-        path: fullPath, 
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
+export const deleteFile = async (filepath: string): Promise<void> => {
+  try {
+    await getStorage().delete(filepath);
+    logger.info('File deleted', { path: filepath });
+  } catch (error) {
+    logger.error('Failed to delete file', { 
+      path: filepath, 
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
   }
 };
 
 // Get file info helper
-export const getFileInfo = (filepath: string): { exists: boolean; size?: number; mtime?: Date } => {
-  const fullPath = path.join(uploadDir, filepath);
+export const getFileInfo = async (filepath: string): Promise<{ exists: boolean; size?: number; mtime?: Date }> => {
   try {
-    if (fs.existsSync(fullPath)) {
-      const stats = fs.statSync(fullPath);
-      return {
-        exists: true,
-        size: stats.size,
-        mtime: stats.mtime,
-      };
-    }
+    return await getStorage().stat(filepath);
   } catch (error) {
     logger.error('Failed to get file info', { 
-      path: fullPath, 
+      path: filepath, 
       error: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -4,6 +4,8 @@ import {
   getUsersHandler,
   updateUserRoleHandler,
   deleteUserHandler,
+  getUserLockStatusHandler,
+  unlockUserHandler,
   getCategoriesHandler,
   createCategoryHandler,
   updateCategoryHandler,
@@ -15,11 +17,18 @@ import {
   toggleTrendingArticleHandler,
   toggleBreakingNewsHandler,
   syncNewsAPIHandler,
+  getUploadCleanupHandler,
+  runUploadCleanupHandler,
+  getTrashHandler,
+  restoreTrashItemHandler,
+  purgeTrashItemHandler,
+  getAuditLogsHandler,
+  getAuditReportHandler,
 } from '../controllers/admin.controller'; 
 import { protect, isAdmin } from '../middlewares/auth.middleware';
 import { validateCategory, validateTag } from './validate.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
-import { getArticlesHandler } from '../controllers/article.controller';
+import { getManagedArticlesHandler } from '../controllers/article.controller';
 
 const router = Router();
 
@@ -33,6 +42,8 @@ router.get('/dashboard', asyncHandler(getDashboardStatsHandler));
 router.get('/users', asyncHandler(getUsersHandler));
 router.put('/users/:id/role', asyncHandler(updateUserRoleHandler));
 router.delete('/users/:id', asyncHandler(deleteUserHandler));
+router.get('/users/:id/lock', asyncHandler(getUserLockStatusHandler));
+router.post('/users/:id/unlock', asyncHandler(unlockUserHandler));
 
 // Category management
 router.get('/categories', asyncHandler(getCategoriesHandler));
@@ -53,6 +64,19 @@ router.put('/articles/:id/breaking', asyncHandler(toggleBreakingNewsHandler));
 // News API sync
 router.post('/sync-news', asyncHandler(syncNewsAPIHandler));
 
-router.get('/articles', asyncHandler(getArticlesHandler));
+// Upload garbage collection
+router.get('/uploads/cleanup', asyncHandler(getUploadCleanupHandler));
+router.post('/uploads/cleanup', asyncHandler(runUploadCleanupHandler));
+
+router.get('/articles', asyncHandler(getManagedArticlesHandler));
+
+// Trash bin (soft-deleted articles, comments and users)
+router.get('/trash', asyncHandler(getTrashHandler));
+router.post('/trash/:type/:id/restore', asyncHandler(restoreTrashItemHandler));
+router.delete('/trash/:type/:id', asyncHandler(purgeTrashItemHandler));
+
+// Audit logs
+router.get('/audit-logs', asyncHandler(getAuditLogsHandler));
+router.get('/audit-logs/report', asyncHandler(getAuditReportHandler));
 
 export default router;
\ No newline at end of file
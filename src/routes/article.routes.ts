@@ -2,6 +2,7 @@ import { Router } from 'express';
 import {
   getArticlesHandler,
   getArticleBySlugHandler,
+  getRelatedArticlesHandler,
   createArticleHandler,
   updateArticleHandler,
   deleteArticleHandler,
@@ -10,11 +11,28 @@ import {
   searchArticlesHandler,
   getArticlesByCategoryHandler,
   getRecommendedArticlesHandler,
+  markNotInterestedHandler,
+  undoNotInterestedHandler,
   incrementViewCountHandler,
   incrementShareCountHandler,
+  updateArticleStatusHandler,
+  getArticleReviewsHandler,
+  addArticleReviewCommentHandler,
+  getManagedArticlesHandler,
+  getArticleRevisionsHandler,
+  getArticleRevisionDiffHandler,
+  getArticleRevisionHandler,
+  restoreArticleRevisionHandler,
+  updateArticleContributorsHandler,
 } from '../controllers/article.controller';
 import { protect, isAdmin, isAuthor } from '../middlewares/auth.middleware';
-import { validateArticleCreate, validateArticleUpdate } from './validate.middleware';
+import {
+  validateArticleCreate,
+  validateArticleUpdate,
+  validateArticleStatusUpdate,
+  validateArticleReviewComment,
+  validateArticleContributors,
+} from './validate.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
@@ -28,13 +46,29 @@ router.get('/category/:slug', asyncHandler(getArticlesByCategoryHandler));
 
 // Protected routes
 router.get('/recommended', protect, asyncHandler(getRecommendedArticlesHandler));
+router.get('/manage', protect, isAuthor, asyncHandler(getManagedArticlesHandler));
 router.get('/:slug', asyncHandler(getArticleBySlugHandler));
+router.get('/:slug/related', asyncHandler(getRelatedArticlesHandler));
 router.post('/:id/view', asyncHandler(incrementViewCountHandler));
 router.post('/:id/share', asyncHandler(incrementShareCountHandler));
+router.post('/:id/not-interested', protect, asyncHandler(markNotInterestedHandler));
+router.delete('/:id/not-interested', protect, asyncHandler(undoNotInterestedHandler));
 
 // Author/Admin routes
 router.post('/', protect, isAuthor, validateArticleCreate, asyncHandler(createArticleHandler));
 router.put('/:id', protect, isAuthor, validateArticleUpdate, asyncHandler(updateArticleHandler));
 router.delete('/:id', protect, isAdmin, asyncHandler(deleteArticleHandler));
+router.put('/:id/contributors', protect, isAuthor, validateArticleContributors, asyncHandler(updateArticleContributorsHandler));
+
+// Editorial workflow (role rules are enforced per transition)
+router.patch('/:id/status', protect, isAuthor, validateArticleStatusUpdate, asyncHandler(updateArticleStatusHandler));
+router.get('/:id/reviews', protect, isAuthor, asyncHandler(getArticleReviewsHandler));
+router.post('/:id/reviews', protect, isAuthor, validateArticleReviewComment, asyncHandler(addArticleReviewCommentHandler));
+
+// Revision history
+router.get('/:id/revisions', protect, isAuthor, asyncHandler(getArticleRevisionsHandler));
+router.get('/:id/revisions/diff', protect, isAuthor, asyncHandler(getArticleRevisionDiffHandler));
+router.get('/:id/revisions/:revisionId', protect, isAuthor, asyncHandler(getArticleRevisionHandler));
+router.post('/:id/revisions/:revisionId/restore', protect, isAuthor, asyncHandler(restoreArticleRevisionHandler));
 
 export default router;
@@ -9,20 +9,42 @@ import {
   updatePasswordHandler,
   updateLanguageHandler,
   updatePreferenceHandler,
+  forgotPasswordHandler,
+  resetPasswordHandler,
+  verifyEmailHandler,
+  resendVerificationHandler,
 } from '../controllers/auth.controller';
+import {
+  refreshTokenHandler,
+  getSessionsHandler,
+  revokeSessionHandler,
+  revokeOtherSessionsHandler,
+} from '../controllers/session.controller';
+import { oauthStartHandler, oauthCallbackHandler } from '../controllers/oauth.controller';
+import {
+  getTwoFactorStatusHandler,
+  setupTwoFactorHandler,
+  confirmTwoFactorHandler,
+  disableTwoFactorHandler,
+  regenerateRecoveryCodesHandler,
+  verifyTwoFactorLoginHandler,
+} from '../controllers/two-factor.controller';
 import { protect } from '../middlewares/auth.middleware';
 import { 
   validateRegister, 
   validateLogin, 
   validateProfileUpdate, 
-  validatePasswordUpdate 
+  validatePasswordUpdate,
+  validateForgotPassword,
+  validateResetPassword,
+  validatePreferences,
 } from './validate.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
 
-console.log('🔐 Auth routes loaded - JWT only mode');
+console.log('🔐 Auth routes loaded - JWT + OAuth mode');
 
 // Strict rate limiter for password changes
 const strictRateLimit = rateLimit({
@@ -37,9 +59,36 @@ const strictRateLimit = rateLimit({
   legacyHeaders: false,
 });
 
-// Regular auth routes (JWT-only, no OAuth)
+// Password reset limiter - keyed by IP, counts every request so probing is throttled too
+const passwordResetRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5,
+  message: {
+    success: false,
+    message: 'Too many password reset requests. Please try again later.',
+    code: 'PASSWORD_RESET_RATE_LIMIT',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Two-factor code checks - per IP, on top of the per-challenge attempt cap
+const twoFactorRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: {
+    success: false,
+    message: 'Too many two-factor attempts. Please try again later.',
+    code: 'TWO_FACTOR_RATE_LIMIT',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Regular auth routes
 router.post('/register', validateRegister, asyncHandler(registerHandler));
 router.post('/login', validateLogin, asyncHandler(loginHandler));
+router.post('/login/2fa', twoFactorRateLimit, asyncHandler(verifyTwoFactorLoginHandler));
 
 // /me endpoint - rate limiting is handled at app level
 router.get('/me', protect, asyncHandler(getMeHandler)); 
@@ -47,57 +96,37 @@ router.get('/me', protect, asyncHandler(getMeHandler));
 // Logout doesn't need strict rate limiting
 router.post('/logout', asyncHandler(logoutHandler));
 
+// Token refresh and device sessions
+router.post('/refresh', asyncHandler(refreshTokenHandler));
+router.get('/sessions', protect, asyncHandler(getSessionsHandler));
+router.delete('/sessions', protect, asyncHandler(revokeOtherSessionsHandler));
+router.delete('/sessions/:id', protect, asyncHandler(revokeSessionHandler));
+
 // Profile routes with moderate rate limiting
 router.put('/profile', protect, validateProfileUpdate, asyncHandler(updateProfileHandler));
 router.put('/language', protect, asyncHandler(updateLanguageHandler));
-router.put('/preferences', protect, asyncHandler(updatePreferenceHandler));
+router.put('/preferences', protect, validatePreferences, asyncHandler(updatePreferenceHandler));
 
 // Password change needs strict rate limiting
 router.put('/password', strictRateLimit, protect, validatePasswordUpdate, asyncHandler(updatePasswordHandler));
 
-// OAuth disabled routes - return info message
-router.get('/google', (req, res) => {
-  res.status(503).json({
-    success: false,
-    message: 'OAuth authentication is disabled for Railway deployment. Please use email/password login.',
-    alternative: {
-      endpoint: '/api/auth/login',
-      method: 'POST',
-      body: {
-        email: 'your_email@example.com',
-        password: 'your_password'
-      }
-    }
-  });
-});
+// Password reset (public)
+router.post('/forgot-password', passwordResetRateLimit, validateForgotPassword, asyncHandler(forgotPasswordHandler));
+router.post('/reset-password', passwordResetRateLimit, validateResetPassword, asyncHandler(resetPasswordHandler));
 
-router.get('/github', (req, res) => {
-  res.status(503).json({
-    success: false,
-    message: 'OAuth authentication is disabled for Railway deployment. Please use email/password login.',
-    alternative: {
-      endpoint: '/api/auth/login',
-      method: 'POST',
-      body: {
-        email: 'your_email@example.com',
-        password: 'your_password'
-      }
-    }
-  });
-});
+// Email verification
+router.post('/verify-email', asyncHandler(verifyEmailHandler));
+router.post('/resend-verification', strictRateLimit, protect, asyncHandler(resendVerificationHandler));
 
-router.get('/callback/google', (req, res) => {
-  res.status(503).json({
-    success: false,
-    message: 'OAuth callbacks are disabled for Railway deployment.'
-  });
-});
+// Two-factor authentication (TOTP + recovery codes)
+router.get('/2fa', protect, asyncHandler(getTwoFactorStatusHandler));
+router.post('/2fa/setup', protect, asyncHandler(setupTwoFactorHandler));
+router.post('/2fa/confirm', twoFactorRateLimit, protect, asyncHandler(confirmTwoFactorHandler));
+router.post('/2fa/disable', strictRateLimit, protect, asyncHandler(disableTwoFactorHandler));
+router.post('/2fa/recovery-codes', strictRateLimit, protect, asyncHandler(regenerateRecoveryCodesHandler));
 
-router.get('/callback/github', (req, res) => {
-  res.status(503).json({
-    success: false,
-    message: 'OAuth callbacks are disabled for Railway deployment.'
-  });
-});
+// OAuth login (authorization code + PKCE)
+router.get('/:provider(google|github)', asyncHandler(oauthStartHandler));
+router.get('/callback/:provider(google|github)', asyncHandler(oauthCallbackHandler));
 
 export default router;
\ No newline at end of file
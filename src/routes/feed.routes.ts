@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { getFeedHandler } from '../controllers/feed.controller';
+import { protect } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+router.get('/', protect, asyncHandler(getFeedHandler));
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getFollowingHandler, followHandler, unfollowHandler } from '../controllers/follow.controller';
+import { protect } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+router.use(protect);
+
+router.get('/', asyncHandler(getFollowingHandler));
+router.post('/:type/:targetId', asyncHandler(followHandler));
+router.delete('/:type/:targetId', asyncHandler(unfollowHandler));
+
+export default router;
@@ -4,6 +4,12 @@ import articleRoutes from './article.routes';
 import interactionRoutes from './interaction.routes';
 import adminRoutes from './admin.routes';
 import categoryRoutes from './category.routes';
+import notificationRoutes from './notification.routes';
+import mediaRoutes from './media.routes';
+import userRoutes from './user.routes';
+import followRoutes from './follow.routes';
+import feedRoutes from './feed.routes';
+import trendingRoutes from './trending.routes';
 
 const router = Router();
 
@@ -12,5 +18,11 @@ router.use('/articles', articleRoutes);
 router.use('/interactions', interactionRoutes);
 router.use('/admin', adminRoutes);
 router.use('/categories', categoryRoutes);
+router.use('/notifications', notificationRoutes);
+router.use('/media', mediaRoutes);
+router.use('/users', userRoutes);
+router.use('/follows', followRoutes);
+router.use('/feed', feedRoutes);
+router.use('/trending', trendingRoutes);
 
 export default router;
@@ -11,7 +11,7 @@ import {
   deleteCommentHandler,
   getReadingHistoryHandler,
 } from '../controllers/interaction.controller';
-import { protect } from '../middlewares/auth.middleware';
+import { protect, requireVerifiedEmail } from '../middlewares/auth.middleware';
 import { validateComment } from './validate.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
 
@@ -23,13 +23,13 @@ router.post('/bookmarks/:articleId', protect, asyncHandler(bookmarkArticleHandle
 router.delete('/bookmarks/:articleId', protect, asyncHandler(removeBookmarkHandler));
 
 // Like routes
-router.post('/likes/:articleId', protect, asyncHandler(likeArticleHandler));
+router.post('/likes/:articleId', protect, requireVerifiedEmail, asyncHandler(likeArticleHandler));
 router.delete('/likes/:articleId', protect, asyncHandler(unlikeArticleHandler));
 
 // Comment routes
 router.get('/comments/:articleId', asyncHandler(getCommentsHandler));
-router.post('/comments/:articleId', protect, validateComment, asyncHandler(addCommentHandler));
-router.put('/comments/:commentId', protect, validateComment, asyncHandler(updateCommentHandler));
+router.post('/comments/:articleId', protect, requireVerifiedEmail, validateComment, asyncHandler(addCommentHandler));
+router.put('/comments/:commentId', protect, requireVerifiedEmail, validateComment, asyncHandler(updateCommentHandler));
 router.delete('/comments/:commentId', protect, asyncHandler(deleteCommentHandler));
 
 // Reading history
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import {
+  uploadArticleImageHandler,
+  uploadAvatarHandler,
+  getMediaHandler,
+  getMediaByIdHandler,
+  getMediaSignedUrlHandler,
+  deleteMediaHandler,
+} from '../controllers/media.controller';
+import { protect, isAuthor } from '../middlewares/auth.middleware';
+import { uploadImage, uploadAvatar } from '../middlewares/upload.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+// protect runs before multer so uploads land in the user's directory
+router.post('/images', protect, isAuthor, uploadImage.single('image'), asyncHandler(uploadArticleImageHandler));
+router.post('/avatar', protect, uploadAvatar.single('avatar'), asyncHandler(uploadAvatarHandler));
+
+router.get('/', protect, asyncHandler(getMediaHandler));
+router.get('/:id', protect, asyncHandler(getMediaByIdHandler));
+router.get('/:id/signed-url', protect, asyncHandler(getMediaSignedUrlHandler));
+router.delete('/:id', protect, asyncHandler(deleteMediaHandler));
+
+export default router;
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  getNotificationsHandler,
+  streamNotificationsHandler,
+  getUnreadCountHandler,
+  markNotificationReadHandler,
+  markAllNotificationsReadHandler,
+  deleteNotificationHandler,
+} from '../controllers/notification.controller';
+import { protect } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+router.get('/', protect, asyncHandler(getNotificationsHandler));
+router.get('/stream', protect, asyncHandler(streamNotificationsHandler));
+router.get('/unread-count', protect, asyncHandler(getUnreadCountHandler));
+router.patch('/read-all', protect, asyncHandler(markAllNotificationsReadHandler));
+router.patch('/:id/read', protect, asyncHandler(markNotificationReadHandler));
+router.delete('/:id', protect, asyncHandler(deleteNotificationHandler));
+
+export default router;
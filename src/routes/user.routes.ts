@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  getUserProfileHandler,
+  getUserArticlesHandler,
+  getUserBookmarksHandler,
+  getUserReadingHistoryHandler,
+} from '../controllers/user.controller';
+import { optionalAuth } from '../middlewares/auth.middleware';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+
+// Public profiles (signed-in users can see their own private activity)
+router.get('/:username', optionalAuth, asyncHandler(getUserProfileHandler));
+router.get('/:username/articles', optionalAuth, asyncHandler(getUserArticlesHandler));
+router.get('/:username/bookmarks', optionalAuth, asyncHandler(getUserBookmarksHandler));
+router.get('/:username/reading-history', optionalAuth, asyncHandler(getUserReadingHistoryHandler));
+
+export default router;
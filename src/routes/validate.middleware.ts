@@ -1,5 +1,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from '../utils/errorHandler';
+import {
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  articleStatusUpdateSchema,
+  articleReviewCommentSchema,
+  articleContributorsSchema,
+  preferenceSchema,
+} from '../utils/validation';
 
 // Validate registration input - FIXED VERSION
 export const validateRegister = (
@@ -67,6 +75,101 @@ export const validateLogin = (
   next();
 };
 
+// Validate forgot password input
+export const validateForgotPassword = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const result = forgotPasswordSchema.safeParse(req.body);
+
+  if (!result.success) {
+    return next(new AppError('Please provide a valid email address', 400));
+  }
+
+  req.body.email = result.data.email;
+  next();
+};
+
+// Validate reset password input
+export const validateResetPassword = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const result = resetPasswordSchema.safeParse(req.body);
+
+  if (!result.success) {
+    return next(new AppError(result.error.errors[0].message, 400));
+  }
+
+  next();
+};
+
+// Validate an editorial status change
+export const validateArticleStatusUpdate = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const result = articleStatusUpdateSchema.safeParse(req.body);
+
+  if (!result.success) {
+    return next(new AppError(result.error.errors[0].message, 400));
+  }
+
+  req.body = result.data;
+  next();
+};
+
+// Validate a reviewer comment
+export const validateArticleReviewComment = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const result = articleReviewCommentSchema.safeParse(req.body);
+
+  if (!result.success) {
+    return next(new AppError(result.error.errors[0].message, 400));
+  }
+
+  req.body = result.data;
+  next();
+};
+
+// Validate an article's contributor list
+export const validateArticleContributors = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const result = articleContributorsSchema.safeParse(req.body);
+
+  if (!result.success) {
+    return next(new AppError(result.error.errors[0].message, 400));
+  }
+
+  req.body = result.data;
+  next();
+};
+
+// Validate preference update
+export const validatePreferences = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const result = preferenceSchema.safeParse(req.body);
+
+  if (!result.success) {
+    return next(new AppError(result.error.errors[0].message, 400));
+  }
+
+  req.body = result.data;
+  next();
+};
+
 // Validate profile update
 export const validateProfileUpdate = (
   req: Request,
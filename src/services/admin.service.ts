@@ -74,6 +74,7 @@ export const initializeAdmin = async (): Promise<void> => {
           role: Role.ADMIN,
           language: Language.ENGLISH,
           bio: 'System Administrator',
+          emailVerified: new Date(),
         },
       });
 
@@ -0,0 +1,136 @@
+import { Article, ContributorRole, Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { notDeleted } from '../utils/softDelete';
+import { ArticleWorkflowService, WorkflowActor } from './article-workflow.service';
+
+export interface ContributorInput {
+  userId: string;
+  role: ContributorRole;
+}
+
+// Contributors with these roles share editing rights with the primary author
+const WRITING_ROLES: ContributorRole[] = [ContributorRole.AUTHOR, ContributorRole.CO_AUTHOR];
+
+const MAX_CONTRIBUTORS = 20;
+
+// What the byline shows for each contributor
+export const contributorSelect = {
+  role: true,
+  position: true,
+  user: {
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      image: true,
+    },
+  },
+} as const;
+
+export class ArticleContributorService {
+  static async list(articleId: string) {
+    return prisma.articleContributor.findMany({
+      where: { articleId, user: notDeleted },
+      select: contributorSelect,
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  // Editors, the primary author and listed authors/co-authors may edit an article
+  static async canEdit(article: Pick<Article, 'id' | 'authorId'>, actor: WorkflowActor): Promise<boolean> {
+    if (ArticleWorkflowService.isEditor(actor.role) || article.authorId === actor.id) {
+      return true;
+    }
+
+    const contributor = await prisma.articleContributor.findFirst({
+      where: { articleId: article.id, userId: actor.id, role: { in: WRITING_ROLES } },
+      select: { id: true },
+    });
+
+    return !!contributor;
+  }
+
+  // Articles the user wrote or co-wrote
+  static writtenBy(userId: string): Prisma.ArticleWhereInput {
+    return {
+      OR: [
+        { authorId: userId },
+        { contributors: { some: { userId, role: { in: WRITING_ROLES } } } },
+      ],
+    };
+  }
+
+  // Articles written or co-written by any of the users
+  static writtenByAny(userIds: string[]): Prisma.ArticleWhereInput {
+    return {
+      OR: [
+        { authorId: { in: userIds } },
+        { contributors: { some: { userId: { in: userIds }, role: { in: WRITING_ROLES } } } },
+      ],
+    };
+  }
+
+  // Articles crediting the user in any role, looked up by username
+  static creditedTo(username: string): Prisma.ArticleWhereInput {
+    return {
+      OR: [
+        { author: { username } },
+        { contributors: { some: { user: { username } } } },
+      ],
+    };
+  }
+
+  // Replace the byline; the primary author always stays first as AUTHOR
+  static async setContributors(
+    article: Pick<Article, 'id' | 'authorId'>,
+    contributors: ContributorInput[]
+  ) {
+    const entries = contributors.filter((entry) => entry.userId !== article.authorId);
+
+    if (new Set(entries.map((entry) => entry.userId)).size !== entries.length) {
+      throw new AppError('Each user can only be listed once', 400);
+    }
+
+    if (entries.length > MAX_CONTRIBUTORS) {
+      throw new AppError(`An article can have at most ${MAX_CONTRIBUTORS} contributors`, 400);
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: entries.map((entry) => entry.userId) }, ...notDeleted },
+      select: { id: true, role: true },
+    });
+
+    for (const entry of entries) {
+      const user = users.find((candidate) => candidate.id === entry.userId);
+
+      if (!user) {
+        throw new AppError(`User ${entry.userId} not found`, 400);
+      }
+
+      // Writing roles grant edit access, which needs an account that can reach the editor
+      if (WRITING_ROLES.includes(entry.role) && user.role === Role.USER) {
+        throw new AppError('Authors and co-authors must have an author, editor or admin account', 400);
+      }
+    }
+
+    const rows = [
+      ...(article.authorId ? [{ userId: article.authorId, role: ContributorRole.AUTHOR }] : []),
+      ...entries,
+    ].map((entry, position) => ({
+      articleId: article.id,
+      userId: entry.userId,
+      role: entry.role,
+      position,
+    }));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.articleContributor.deleteMany({ where: { articleId: article.id } });
+      await tx.articleContributor.createMany({ data: rows });
+    });
+
+    return this.list(article.id);
+  }
+}
+
+export default ArticleContributorService;
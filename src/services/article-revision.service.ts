@@ -0,0 +1,221 @@
+import { Article, ArticleRevision, Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { diffWords, WordDiff } from '../utils/diff';
+import { logger } from '../utils/logger';
+
+// Fields captured in each revision
+const SNAPSHOT_FIELDS = ['title', 'content', 'summary', 'image', 'categoryId', 'tagIds', 'language'] as const;
+type SnapshotField = (typeof SNAPSHOT_FIELDS)[number];
+type ArticleSnapshot = Pick<Article, SnapshotField>;
+
+// Text fields get a word diff; the rest are reported as before/after values
+const TEXT_FIELDS = ['title', 'summary', 'content'] as const;
+
+// Concurrent saves racing for a version number get this many tries
+const MAX_RECORD_ATTEMPTS = 3;
+
+export interface RevisionDiff {
+  from: Pick<ArticleRevision, 'id' | 'version' | 'editorId' | 'createdAt'>;
+  to: Pick<ArticleRevision, 'id' | 'version' | 'editorId' | 'createdAt'>;
+  fields: Partial<Record<(typeof TEXT_FIELDS)[number], WordDiff>>;
+  changes: Array<{ field: SnapshotField; from: unknown; to: unknown }>;
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+export class ArticleRevisionService {
+  // Snapshot the article as it is now; articles from before revisions get a baseline first
+  static async record(
+    article: Article,
+    editorId: string | null,
+    changedFields: string[],
+    restoredFromId: string | null = null
+  ): Promise<ArticleRevision> {
+    for (let attempt = 1; ; attempt++) {
+      const latest = await prisma.articleRevision.findFirst({
+        where: { articleId: article.id },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      try {
+        return await prisma.articleRevision.create({
+          data: {
+            ...this.snapshot(article),
+            articleId: article.id,
+            version: (latest?.version ?? 0) + 1,
+            editorId,
+            changedFields,
+            restoredFromId,
+          },
+        });
+      } catch (error) {
+        // Two saves racing for the same version number; the article itself is already saved
+        const conflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+        if (!conflict || attempt >= MAX_RECORD_ATTEMPTS) {
+          throw error;
+        }
+        logger.warn('Article revision version conflict, retrying', { articleId: article.id, attempt });
+      }
+    }
+  }
+
+  // The subset of updated fields that revisions capture
+  static trackedFields(fields: string[]): string[] {
+    return fields.filter((field) => (SNAPSHOT_FIELDS as readonly string[]).includes(field));
+  }
+
+  // Keep the pre-edit state of articles that were created before revision history existed
+  static async ensureBaseline(article: Article): Promise<void> {
+    const count = await prisma.articleRevision.count({ where: { articleId: article.id } });
+
+    if (count === 0) {
+      await this.record(article, article.authorId, []);
+    }
+  }
+
+  static async list(articleId: string, page: number, limit: number) {
+    const [revisions, total] = await Promise.all([
+      prisma.articleRevision.findMany({
+        where: { articleId },
+        select: {
+          id: true,
+          version: true,
+          title: true,
+          changedFields: true,
+          restoredFromId: true,
+          createdAt: true,
+          editor: {
+            select: { id: true, name: true, image: true },
+          },
+        },
+        orderBy: { version: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.articleRevision.count({ where: { articleId } }),
+    ]);
+
+    return { revisions, total };
+  }
+
+  static async get(articleId: string, revisionId: string): Promise<ArticleRevision> {
+    const revision = await prisma.articleRevision.findFirst({
+      where: { id: revisionId, articleId },
+    });
+
+    if (!revision) {
+      throw new AppError('Revision not found', 404);
+    }
+
+    return revision;
+  }
+
+  // Diff two revisions; "to" defaults to the latest and "from" to the revision before "to"
+  static async diff(articleId: string, fromId?: string, toId?: string): Promise<RevisionDiff> {
+    const to = toId
+      ? await this.get(articleId, toId)
+      : await prisma.articleRevision.findFirst({ where: { articleId }, orderBy: { version: 'desc' } });
+
+    if (!to) {
+      throw new AppError('This article has no revisions yet', 404);
+    }
+
+    const from = fromId
+      ? await this.get(articleId, fromId)
+      : await prisma.articleRevision.findFirst({
+          where: { articleId, version: { lt: to.version } },
+          orderBy: { version: 'desc' },
+        });
+
+    if (!from) {
+      throw new AppError('No earlier revision to compare with', 400);
+    }
+
+    const fields: RevisionDiff['fields'] = {};
+    for (const field of TEXT_FIELDS) {
+      fields[field] = diffWords(from[field], to[field]);
+    }
+
+    const changes = SNAPSHOT_FIELDS.filter(
+      (field) => !(TEXT_FIELDS as readonly string[]).includes(field) && !isSameValue(from[field], to[field])
+    ).map((field) => ({ field, from: from[field], to: to[field] }));
+
+    const meta = (revision: ArticleRevision) => ({
+      id: revision.id,
+      version: revision.version,
+      editorId: revision.editorId,
+      createdAt: revision.createdAt,
+    });
+
+    return { from: meta(from), to: meta(to), fields, changes };
+  }
+
+  // Apply an old snapshot as a new save; history is never rewritten
+  static async restore(
+    article: Article,
+    revisionId: string,
+    editorId: string
+  ): Promise<{ article: Article; revision: ArticleRevision; restoredFrom: ArticleRevision }> {
+    const source = await this.get(article.id, revisionId);
+    await this.ensureBaseline(article);
+
+    const snapshot = this.snapshot(source);
+
+    // Categories and tags may have been deleted since the revision was taken
+    const [category, tags] = await Promise.all([
+      snapshot.categoryId
+        ? prisma.category.findUnique({ where: { id: snapshot.categoryId }, select: { id: true } })
+        : null,
+      prisma.tag.findMany({ where: { id: { in: snapshot.tagIds } }, select: { id: true } }),
+    ]);
+    snapshot.categoryId = category?.id ?? null;
+    snapshot.tagIds = snapshot.tagIds.filter((id) => tags.some((tag) => tag.id === id));
+
+    const changedFields = SNAPSHOT_FIELDS.filter((field) => !isSameValue(article[field], snapshot[field]));
+
+    if (changedFields.length === 0) {
+      throw new AppError('The article already matches this revision', 400);
+    }
+
+    // The slug stays as it is so existing links keep working
+    const updated = await prisma.article.update({
+      where: { id: article.id },
+      data: {
+        title: snapshot.title,
+        content: snapshot.content,
+        summary: snapshot.summary,
+        image: snapshot.image,
+        categoryId: snapshot.categoryId,
+        tagIds: snapshot.tagIds,
+        language: snapshot.language,
+      },
+    });
+
+    const revision = await this.record(updated, editorId, changedFields, source.id);
+
+    logger.info('Article revision restored', {
+      articleId: article.id,
+      restoredVersion: source.version,
+      newVersion: revision.version,
+      editorId,
+    });
+
+    return { article: updated, revision, restoredFrom: source };
+  }
+
+  private static snapshot(source: ArticleSnapshot): ArticleSnapshot {
+    return {
+      title: source.title,
+      content: source.content,
+      summary: source.summary,
+      image: source.image ?? null,
+      categoryId: source.categoryId ?? null,
+      tagIds: source.tagIds || [],
+      language: source.language,
+    };
+  }
+}
+
+export default ArticleRevisionService;
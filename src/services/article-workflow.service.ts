@@ -0,0 +1,373 @@
+import { Article, ArticleReview, ArticleStatus, Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { NotificationService } from './notification.service';
+import { CacheService } from './cache.service';
+import { ArticleContributorService } from './article-contributor.service';
+import { logger } from '../utils/logger';
+import { notDeleted } from '../utils/softDelete';
+
+export interface WorkflowActor {
+  id: string;
+  role: Role;
+  name?: string;
+}
+
+export interface TransitionOptions {
+  comment?: string;
+  scheduledAt?: Date;
+}
+
+// 'author' = the article's author, a co-author or an editor/admin, 'editor' = editors and admins only
+type TransitionRule = 'author' | 'editor';
+
+const TRANSITIONS: Record<ArticleStatus, Partial<Record<ArticleStatus, TransitionRule>>> = {
+  DRAFT: { IN_REVIEW: 'author' },
+  IN_REVIEW: { APPROVED: 'editor', DRAFT: 'author' },
+  APPROVED: { SCHEDULED: 'editor', PUBLISHED: 'editor', DRAFT: 'editor' },
+  SCHEDULED: { PUBLISHED: 'editor', APPROVED: 'editor' },
+  PUBLISHED: { ARCHIVED: 'editor', DRAFT: 'editor' },
+  ARCHIVED: { PUBLISHED: 'editor', DRAFT: 'editor' },
+};
+
+const STATUS_MESSAGES: Partial<Record<ArticleStatus, string>> = {
+  APPROVED: 'was approved',
+  SCHEDULED: 'was scheduled for publication',
+  PUBLISHED: 'was published',
+  ARCHIVED: 'was archived',
+  DRAFT: 'was returned to draft',
+};
+
+export class ArticleWorkflowService {
+  static isEditor(role: Role): boolean {
+    return role === Role.EDITOR || role === Role.ADMIN;
+  }
+
+  // Articles from before the workflow have no status; fall back to the published flag
+  static getStatus(article: Pick<Article, 'status' | 'published'>): ArticleStatus {
+    return article.status ?? (article.published ? ArticleStatus.PUBLISHED : ArticleStatus.DRAFT);
+  }
+
+  static statusWhere(status: ArticleStatus): Prisma.ArticleWhereInput {
+    if (status === ArticleStatus.PUBLISHED || status === ArticleStatus.DRAFT) {
+      return {
+        OR: [
+          { status },
+          { status: { isSet: false }, published: status === ArticleStatus.PUBLISHED },
+        ],
+      };
+    }
+
+    return { status };
+  }
+
+  static async getAllowedTransitions(
+    article: Pick<Article, 'id' | 'status' | 'published' | 'authorId'>,
+    actor: WorkflowActor
+  ): Promise<ArticleStatus[]> {
+    const rules = TRANSITIONS[this.getStatus(article)];
+    const canEdit = await ArticleContributorService.canEdit(article, actor);
+
+    return (Object.keys(rules) as ArticleStatus[]).filter((to) =>
+      this.isAllowed(rules[to]!, canEdit, actor)
+    );
+  }
+
+  static async transition(
+    articleId: string,
+    to: ArticleStatus,
+    actor: WorkflowActor,
+    options: TransitionOptions = {}
+  ): Promise<{ article: Article; review: ArticleReview; from: ArticleStatus }> {
+    const article = await prisma.article.findUnique({ where: { id: articleId, ...notDeleted } });
+
+    if (!article) {
+      throw new AppError('Article not found', 404);
+    }
+
+    const from = this.getStatus(article);
+    const rule = TRANSITIONS[from][to];
+
+    if (!rule) {
+      throw new AppError(`Cannot move an article from ${from} to ${to}`, 400);
+    }
+
+    if (!this.isAllowed(rule, await ArticleContributorService.canEdit(article, actor), actor)) {
+      throw new AppError(
+        rule === 'editor'
+          ? 'Only editors and admins can make this change'
+          : 'Unauthorized to change the status of this article',
+        403
+      );
+    }
+
+    // Sending a submission back needs a reason the author can act on
+    const isRejection = from === ArticleStatus.IN_REVIEW && to === ArticleStatus.DRAFT && actor.id !== article.authorId;
+    if (isRejection && !options.comment) {
+      throw new AppError('A comment is required when requesting changes', 400);
+    }
+
+    if (to === ArticleStatus.SCHEDULED && (!options.scheduledAt || options.scheduledAt.getTime() <= Date.now())) {
+      throw new AppError('scheduledAt must be a date in the future', 400);
+    }
+
+    const now = new Date();
+    const data: Prisma.ArticleUpdateManyMutationInput = {
+      status: to,
+      published: to === ArticleStatus.PUBLISHED,
+      scheduledAt: to === ArticleStatus.SCHEDULED ? options.scheduledAt : null,
+    };
+
+    if (to === ArticleStatus.IN_REVIEW) {
+      data.submittedAt = now;
+    }
+
+    // Un-archiving keeps the original publication date; scheduling shows the future date
+    if (to === ArticleStatus.PUBLISHED && from !== ArticleStatus.ARCHIVED) {
+      data.publishedAt = now;
+    } else if (to === ArticleStatus.SCHEDULED) {
+      data.publishedAt = options.scheduledAt;
+    }
+
+    // Guard against a concurrent change between the read and the write
+    const { count } = await prisma.article.updateMany({
+      where: { id: article.id, ...(article.status ? { status: from } : { status: { isSet: false } }) },
+      data,
+    });
+
+    if (count === 0) {
+      throw new AppError('Article status changed in the meantime, please reload', 409);
+    }
+
+    const [updated, review] = await Promise.all([
+      prisma.article.findUniqueOrThrow({ where: { id: article.id } }),
+      prisma.articleReview.create({
+        data: {
+          articleId: article.id,
+          reviewerId: actor.id,
+          fromStatus: from,
+          toStatus: to,
+          comment: options.comment ?? null,
+        },
+      }),
+    ]);
+
+    await this.notifyTransition(updated, from, to, actor.id, options.comment);
+    await this.afterVisibilityChange(updated.id, from, to);
+
+    logger.info('Article status changed', {
+      articleId: article.id,
+      from,
+      to,
+      userId: actor.id,
+    });
+
+    return { article: updated, review, from };
+  }
+
+  // Called by the scheduler; the status guard makes it a no-op if another replica got there first
+  static async publishScheduled(articleId: string, now: Date = new Date()): Promise<boolean> {
+    const { count } = await prisma.article.updateMany({
+      where: {
+        id: articleId,
+        status: ArticleStatus.SCHEDULED,
+        scheduledAt: { lte: now },
+        ...notDeleted,
+      },
+      data: {
+        status: ArticleStatus.PUBLISHED,
+        published: true,
+        scheduledAt: null,
+      },
+    });
+
+    if (count === 0) {
+      return false;
+    }
+
+    const article = await prisma.article.findUniqueOrThrow({ where: { id: articleId } });
+
+    await prisma.articleReview.create({
+      data: {
+        articleId,
+        reviewerId: null,
+        fromStatus: ArticleStatus.SCHEDULED,
+        toStatus: ArticleStatus.PUBLISHED,
+        comment: 'Published automatically at the scheduled time',
+      },
+    });
+
+    await this.notifyTransition(article, ArticleStatus.SCHEDULED, ArticleStatus.PUBLISHED, null);
+    await this.afterVisibilityChange(article.id, ArticleStatus.SCHEDULED, ArticleStatus.PUBLISHED);
+
+    logger.info('Scheduled article published', { articleId, scheduledFor: article.publishedAt });
+    return true;
+  }
+
+  // Public lists are cached, and a first publication goes out to followers and category subscribers
+  static async afterVisibilityChange(
+    articleId: string,
+    from: ArticleStatus | null,
+    to: ArticleStatus
+  ): Promise<void> {
+    if (from !== ArticleStatus.PUBLISHED && to !== ArticleStatus.PUBLISHED) {
+      return;
+    }
+
+    try {
+      await CacheService.invalidateContent();
+    } catch (error) {
+      logger.error('Content cache invalidation failed', {
+        articleId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    // Emails are sent in throttled batches, so do not hold up the caller
+    if (to === ArticleStatus.PUBLISHED) {
+      this.notifyFirstPublication(articleId).catch((error) => {
+        logger.error('Article publication notification failed', {
+          articleId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }
+  }
+
+  // Republishing (after archiving or unpublishing) must not notify followers again. The review log
+  // records every move into or out of PUBLISHED; only the transition that just happened may be there.
+  private static async notifyFirstPublication(articleId: string): Promise<void> {
+    const publications = await prisma.articleReview.count({
+      where: {
+        articleId,
+        OR: [{ toStatus: ArticleStatus.PUBLISHED }, { fromStatus: ArticleStatus.PUBLISHED }],
+      },
+    });
+
+    if (publications <= 1) {
+      await NotificationService.notifyArticlePublished(articleId);
+    }
+  }
+
+  // Comments without a status change (reviewers discussing a submission with the author)
+  static async addComment(articleId: string, actor: WorkflowActor, comment: string): Promise<ArticleReview> {
+    const article = await prisma.article.findUnique({
+      where: { id: articleId, ...notDeleted },
+      select: { id: true, title: true, status: true, published: true, authorId: true },
+    });
+
+    if (!article || !(await ArticleContributorService.canEdit(article, actor))) {
+      throw new AppError('Article not found', 404);
+    }
+
+    const status = this.getStatus(article);
+    const review = await prisma.articleReview.create({
+      data: {
+        articleId: article.id,
+        reviewerId: actor.id,
+        fromStatus: status,
+        toStatus: null,
+        comment,
+      },
+    });
+
+    if (article.authorId && article.authorId !== actor.id) {
+      await NotificationService.create({
+        type: 'article_review',
+        message: `${actor.name || 'An editor'} commented on "${article.title}"`,
+        userId: article.authorId,
+        relatedId: article.id,
+      });
+    }
+
+    return review;
+  }
+
+  static async getReviews(articleId: string, actor: WorkflowActor) {
+    const article = await prisma.article.findUnique({
+      where: { id: articleId, ...notDeleted },
+      select: { id: true, status: true, published: true, authorId: true },
+    });
+
+    if (!article || !(await ArticleContributorService.canEdit(article, actor))) {
+      throw new AppError('Article not found', 404);
+    }
+
+    const reviews = await prisma.articleReview.findMany({
+      where: { articleId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        reviewer: {
+          select: { id: true, name: true, image: true, role: true },
+        },
+      },
+    });
+
+    return {
+      status: this.getStatus(article),
+      allowedTransitions: await this.getAllowedTransitions(article, actor),
+      reviews,
+    };
+  }
+
+  // canEdit: the actor may edit the article (primary author or a writing contributor, see ArticleContributorService)
+  private static isAllowed(rule: TransitionRule, canEdit: boolean, actor: WorkflowActor): boolean {
+    if (this.isEditor(actor.role)) {
+      return true;
+    }
+
+    return rule === 'author' && actor.role === Role.AUTHOR && canEdit;
+  }
+
+  private static async notifyTransition(
+    article: Article,
+    from: ArticleStatus,
+    to: ArticleStatus,
+    actorId: string | null,
+    comment?: string
+  ): Promise<void> {
+    try {
+      // New submissions go to the review desk
+      if (to === ArticleStatus.IN_REVIEW) {
+        const editors = await prisma.user.findMany({
+          where: { role: { in: [Role.EDITOR, Role.ADMIN] }, ...(actorId && { id: { not: actorId } }) },
+          select: { id: true },
+        });
+
+        await NotificationService.createForUsers(
+          editors.map((editor) => editor.id),
+          {
+            type: 'article_review',
+            message: `"${article.title}" was submitted for review`,
+            relatedId: article.id,
+          }
+        );
+        return;
+      }
+
+      if (!article.authorId || article.authorId === actorId) {
+        return;
+      }
+
+      const action = from === ArticleStatus.IN_REVIEW && to === ArticleStatus.DRAFT
+        ? 'needs changes'
+        : STATUS_MESSAGES[to] || `moved to ${to}`;
+
+      await NotificationService.create({
+        type: 'article_review',
+        message: `Your article "${article.title}" ${action}${comment ? `: ${comment.substring(0, 200)}` : ''}`,
+        userId: article.authorId,
+        relatedId: article.id,
+      });
+    } catch (error) {
+      // The status change already happened; a failed notification should not undo it
+      logger.error('Article workflow notification failed', {
+        articleId: article.id,
+        to,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+export default ArticleWorkflowService;
@@ -1,3 +1,4 @@
+import { Prisma, AuditLog as AuditLogRecord } from '@prisma/client';
 import { prisma } from '../config/db';
 import { logger } from '../utils/logger';
 
@@ -13,14 +14,46 @@ export interface AuditLog {
   timestamp?: Date;
 }
 
+export interface AuditLogFilters {
+  userId?: string;
+  action?: string;
+  targetId?: string;
+  targetType?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+const CSV_COLUMNS: (keyof AuditLogRecord)[] = [
+  'createdAt',
+  'action',
+  'userId',
+  'targetType',
+  'targetId',
+  'ip',
+  'userAgent',
+  'details',
+];
+
 export class AuditService {
   // Log user actions
   static async logAction(auditData: AuditLog): Promise<void> {
     try {
-      // Log to database (if you have an audit table)
-      // await prisma.auditLog.create({ data: auditData });
+      await prisma.auditLog.create({
+        data: {
+          action: auditData.action,
+          userId: auditData.userId,
+          targetId: auditData.targetId,
+          targetType: auditData.targetType,
+          details: auditData.details ?? undefined,
+          ip: auditData.ip,
+          userAgent: auditData.userAgent,
+          createdAt: auditData.timestamp || new Date(),
+        },
+      });
 
-      // Log to file system
+      // Also keep the file log for log shipping
       logger.info('Audit Log', {
         action: auditData.action,
         userId: auditData.userId,
@@ -41,6 +74,8 @@ export class AuditService {
     await this.logAction({
       action: success ? 'USER_LOGIN_SUCCESS' : 'USER_LOGIN_FAILED',
       userId: success ? userId : undefined,
+      targetId: userId,
+      targetType: 'user',
       details: { success },
       ip,
       userAgent,
@@ -86,6 +121,23 @@ export class AuditService {
     });
   }
 
+  static async logArticleStatusChange(
+    userId: string,
+    articleId: string,
+    fromStatus: string,
+    toStatus: string,
+    ip: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'ARTICLE_STATUS_CHANGED',
+      userId,
+      targetId: articleId,
+      targetType: 'article',
+      details: { fromStatus, toStatus },
+      ip,
+    });
+  }
+
   static async logArticleDelete(deleterId: string, articleId: string, ip: string): Promise<void> {
     await this.logAction({
       action: 'ARTICLE_DELETED',
@@ -118,6 +170,26 @@ export class AuditService {
     });
   }
 
+  static async logTrashRestore(adminId: string, targetType: string, targetId: string, ip: string): Promise<void> {
+    await this.logAction({
+      action: 'TRASH_RESTORED',
+      userId: adminId,
+      targetId,
+      targetType,
+      ip,
+    });
+  }
+
+  static async logTrashPurge(adminId: string, targetType: string, targetId: string, ip: string): Promise<void> {
+    await this.logAction({
+      action: 'TRASH_PURGED',
+      userId: adminId,
+      targetId,
+      targetType,
+      ip,
+    });
+  }
+
   static async logAdminAccess(adminId: string, resource: string, ip: string): Promise<void> {
     await this.logAction({
       action: 'ADMIN_ACCESS',
@@ -172,32 +244,116 @@ export class AuditService {
   }
 
   // Get audit logs (for admin dashboard)
-  static async getAuditLogs(filters: {
-    userId?: string;
-    action?: string;
-    targetType?: string;
-    startDate?: Date;
-    endDate?: Date;
-    limit?: number;
-    offset?: number;
-  }): Promise<any[]> {
-    // This would query your audit log table
-    // For now, return empty array since we're using file logging
-    return [];
+  static async getAuditLogs(filters: AuditLogFilters): Promise<{ logs: AuditLogRecord[]; total: number }> {
+    const where = this.buildWhere(filters);
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: filters.offset || 0,
+        take: filters.limit || 50,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return { logs, total };
   }
 
   // Generate audit report
   static async generateReport(startDate: Date, endDate: Date): Promise<any> {
+    const where: Prisma.AuditLogWhereInput = {
+      createdAt: { gte: startDate, lte: endDate },
+    };
+
+    const [totalActions, actionCounts, securityEvents, activeUsers] = await Promise.all([
+      prisma.auditLog.count({ where }),
+      prisma.auditLog.groupBy({
+        by: ['action'],
+        where,
+        _count: { _all: true },
+      }),
+      prisma.auditLog.findMany({
+        where: { ...where, action: { startsWith: 'SECURITY_' } },
+        orderBy: { createdAt: 'desc' },
+        take: 50,
+      }),
+      prisma.auditLog.groupBy({
+        by: ['userId'],
+        where: { ...where, userId: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countFor = (predicate: (action: string) => boolean) =>
+      actionCounts
+        .filter(entry => predicate(entry.action))
+        .reduce((sum, entry) => sum + entry._count._all, 0);
+
+    const topActions = actionCounts
+      .map(entry => ({ action: entry.action, count: entry._count._all }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+
+    const topUsers = activeUsers
+      .map(entry => ({ userId: entry.userId, count: entry._count._all }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+
     return {
       period: { startDate, endDate },
       summary: {
-        totalActions: 0,
-        userLogins: 0,
-        articleCreated: 0,
-        securityEvents: 0,
+        totalActions,
+        userLogins: countFor(action => action === 'USER_LOGIN_SUCCESS'),
+        failedLogins: countFor(action => action === 'USER_LOGIN_FAILED'),
+        articleCreated: countFor(action => action === 'ARTICLE_CREATED'),
+        articleDeleted: countFor(action => action === 'ARTICLE_DELETED'),
+        roleChanges: countFor(action => action === 'USER_ROLE_CHANGED'),
+        securityEvents: countFor(action => action.startsWith('SECURITY_')),
       },
-      topActions: [],
-      securityEvents: [],
+      topActions,
+      topUsers,
+      securityEvents,
+    };
+  }
+
+  // Serialize audit logs for CSV export
+  static toCsv(logs: AuditLogRecord[]): string {
+    const escape = (value: unknown): string => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+
+      const text = value instanceof Date
+        ? value.toISOString()
+        : typeof value === 'object'
+          ? JSON.stringify(value)
+          : String(value);
+
+      // Prefix formula-like values so spreadsheets do not evaluate them
+      const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+      return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
     };
+
+    const rows = logs.map(log => CSV_COLUMNS.map(column => escape(log[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+  }
+
+  private static buildWhere(filters: AuditLogFilters): Prisma.AuditLogWhereInput {
+    const where: Prisma.AuditLogWhereInput = {};
+
+    if (filters.userId) where.userId = filters.userId;
+    if (filters.action) where.action = filters.action;
+    if (filters.targetId) where.targetId = filters.targetId;
+    if (filters.targetType) where.targetType = filters.targetType;
+
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate }),
+      };
+    }
+
+    return where;
   }
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@ import { prisma } from "../config/db";
 import { AppError } from "../utils/errorHandler";
 import { LoginInput, RegisterInput } from "../types"; // Pastikan tipe ini sesuai
 import { User, Role, Language, Provider } from "@prisma/client"; // Impor semua tipe yang relevan dari User model jika digunakan di sini
+import { notDeleted } from "../utils/softDelete";
 
 export const register = async ({
   name,
@@ -94,7 +95,7 @@ RegisterInput): Promise<User> => {
 export const login = async ({ email, password }: LoginInput): Promise<User> => {
   // Check if user exists
   const user = await prisma.user.findUnique({
-    where: { email },
+    where: { email, ...notDeleted },
   });
 
   if (!user) {
@@ -141,91 +142,130 @@ export const getUserById = async (userId: string): Promise<User | null> => {
   return user;
 };
 
-// Anda mungkin juga memerlukan fungsi untuk menangani pembuatan atau pencarian user dari OAuth
-// Contoh (perlu disesuaikan dengan logika di passport.ts Anda):
-export const findOrCreateUserFromProvider = async (
-  provider: Provider, // Enum Provider dari @prisma/client
-  profileId: string,
-  email: string | null, // Email bisa null dari beberapa provider
-  name: string,
-  imageUrl?: string | null
-): Promise<User> => {
-  let user = await prisma.user.findFirst({
-    where: {
-      OR: [
-        { provider: provider, providerId: profileId },
-        ...(email ? [{ email: email }] : []), // Cari berdasarkan email jika ada
-      ],
-    },
-  });
+export interface OAuthProfile {
+  providerAccountId: string;
+  email: string | null; // Email bisa null dari beberapa provider
+  emailVerified: boolean;
+  name: string;
+  image?: string | null;
+}
 
-  const safeEmail =
-    email ||
-    `${profileId}@${provider.toString().toLowerCase()}.placeholder.com`; // Fallback email jika null
+const generateUsernameFromProfile = async (
+  provider: Provider,
+  profile: OAuthProfile
+): Promise<string> => {
+  const baseUsername =
+    (profile.name.split(" ")[0] || profile.email?.split("@")[0] || "").replace(
+      /[^a-zA-Z0-9]/g,
+      ""
+    ) || `${provider.toString().toLowerCase()}${profile.providerAccountId.substring(0, 5)}`;
 
-  // Buat username unik
-  const baseUsername = (
-    name.split(" ")[0] ||
-    provider.toString().toLowerCase() + profileId.substring(0, 5)
-  ).replace(/[^a-zA-Z0-9]/g, "");
   let potentialUsername = baseUsername;
-  let usernameIsUnique = false;
-  let attempt = 0;
-  while (!usernameIsUnique && attempt < 10) {
+  for (let attempt = 0; attempt < 10; attempt++) {
     const existingUserByUsername = await prisma.user.findUnique({
       where: { username: potentialUsername },
     });
-    if (!existingUserByUsername) usernameIsUnique = true;
-    else {
-      attempt++;
-      potentialUsername = `${baseUsername}${Math.floor(Math.random() * 1000)}`;
+    if (!existingUserByUsername) {
+      return potentialUsername;
     }
+    potentialUsername = `${baseUsername}${Math.floor(Math.random() * 1000)}`;
   }
-  if (!usernameIsUnique) potentialUsername = `${baseUsername}${Date.now()}`;
-  const finalCheck = await prisma.user.findUnique({
-    where: { username: potentialUsername },
+
+  return `${baseUsername}${Date.now()}`;
+};
+
+// Deleted accounts keep their email and provider links until purged, so they must not sign back in
+const assertNotDeleted = (user: User): User => {
+  if (user.deletedAt) {
+    throw new AppError("This account has been deleted", 403);
+  }
+  return user;
+};
+
+// Resolve the local user for an OAuth identity:
+// 1. an already linked OAuthAccount (or a legacy provider/providerId pair on the user)
+// 2. an existing account with the same email - linked only when the provider verified it
+// 3. otherwise a new user
+export const findOrCreateUserFromProvider = async (
+  provider: Provider,
+  profile: OAuthProfile
+): Promise<User> => {
+  const { providerAccountId, email, emailVerified } = profile;
+
+  const account = await prisma.oAuthAccount.findUnique({
+    where: { provider_providerAccountId: { provider, providerAccountId } },
+    include: { user: true },
   });
-  if (finalCheck && finalCheck.id !== user?.id) {
-    // Pastikan tidak konflik dengan user yang mungkin sudah ada (jika email match)
-    potentialUsername = `${baseUsername}${profileId.substring(
-      0,
-      3
-    )}${Date.now()}`;
+
+  if (account) {
+    return assertNotDeleted(account.user);
   }
 
-  if (!user) {
-    // User tidak ditemukan, buat user baru
-    user = await prisma.user.create({
-      data: {
-        name,
-        email: safeEmail,
-        username: potentialUsername,
-        image: imageUrl,
-        provider: provider,
-        providerId: profileId,
-        // Password bisa null untuk OAuth users
-        // Role dan language akan menggunakan default dari schema
-      },
-    });
-    // Buat preferensi default untuk user baru
-    await prisma.preference.create({
-      data: { userId: user.id, categories: [] },
+  const legacyUser = await prisma.user.findFirst({
+    where: { provider, providerId: providerAccountId },
+  });
+
+  if (legacyUser) {
+    assertNotDeleted(legacyUser);
+    await prisma.oAuthAccount.create({
+      data: { userId: legacyUser.id, provider, providerAccountId, email },
     });
-  } else {
-    // User ditemukan, update informasi provider jika belum ada atau berbeda
-    if (user.provider !== provider || !user.providerId) {
-      user = await prisma.user.update({
-        where: { id: user.id },
+    return legacyUser;
+  }
+
+  if (email) {
+    const existingUser = await prisma.user.findUnique({ where: { email } });
+
+    if (existingUser) {
+      assertNotDeleted(existingUser);
+
+      // Both sides must have proven the address: an unverified provider email would let anyone claim the
+      // account, and an unverified account may have been registered by someone else ahead of the owner
+      if (!emailVerified || !existingUser.emailVerified) {
+        throw new AppError(
+          "An account with this email already exists. Sign in with your password and verify your email to link this provider.",
+          409
+        );
+      }
+
+      await prisma.oAuthAccount.create({
+        data: { userId: existingUser.id, provider, providerAccountId, email },
+      });
+
+      // Keep provider as-is so password login keeps working for EMAIL accounts
+      return prisma.user.update({
+        where: { id: existingUser.id },
         data: {
-          provider: provider,
-          providerId: profileId,
-          image: user.image || imageUrl, // Update image jika belum ada atau dari provider baru
-          // Pastikan email tidak dioverwrite jika sudah ada dan terverifikasi
-          email:
-            user.email && user.email !== safeEmail ? user.email : safeEmail,
+          image: existingUser.image || profile.image,
         },
       });
     }
   }
+
+  const username = await generateUsernameFromProfile(provider, profile);
+
+  const user = await prisma.user.create({
+    data: {
+      name: profile.name || username,
+      email:
+        email ||
+        `${providerAccountId}@${provider.toString().toLowerCase()}.placeholder.com`, // Fallback email jika null
+      username,
+      image: profile.image,
+      provider,
+      providerId: providerAccountId,
+      emailVerified: email && emailVerified ? new Date() : null,
+      // Password null untuk OAuth users
+    },
+  });
+
+  await prisma.preference.create({
+    data: { userId: user.id, categories: [] },
+  });
+
+  await prisma.oAuthAccount.create({
+    data: { userId: user.id, provider, providerAccountId, email },
+  });
+
   return user;
-};
\ No newline at end of file
+};
@@ -14,6 +14,7 @@ export class CacheService {
     SEARCH: (query: string) => `search:${Buffer.from(query).toString('base64')}`,
     DASHBOARD: () => 'dashboard:stats',
     NEWS_API: (params: string) => `newsapi:${params}`,
+    RELATED: (articleId: string) => `related:${articleId}`,
   };
 
   // Get user data from cache
@@ -128,6 +129,18 @@ export class CacheService {
     await setCachedData(key, results, ttl);
   }
 
+  // Get precomputed related article ids
+  static async getRelated(articleId: string) {
+    const key = this.KEYS.RELATED(articleId);
+    return await getCachedData(key);
+  }
+
+  // Cache related article ids
+  static async setRelated(articleId: string, neighbors: any, ttl: number = 21600) {
+    const key = this.KEYS.RELATED(articleId);
+    await setCachedData(key, neighbors, ttl);
+  }
+
   // Get comments
   static async getComments(articleId: string, page: number) {
     const key = this.KEYS.COMMENTS(articleId, page);
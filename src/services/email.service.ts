@@ -44,6 +44,26 @@ interface ResetData {
   resetUrl: string;
 }
 
+interface VerificationData {
+  name: string;
+  verifyUrl: string;
+}
+
+interface AccountLockedData {
+  name: string;
+  attempts: number;
+  lockedUntil: string;
+  resetUrl: string;
+}
+
+interface NewDeviceLoginData {
+  name: string;
+  device: string;
+  ip: string;
+  time: string;
+  sessionsUrl: string;
+}
+
 interface DigestData {
   name: string;
   articles: Array<{
@@ -204,6 +224,80 @@ export class EmailService {
         text: `Welcome to NewticaX, ${data.name}! Thank you for joining our news platform. Your username: ${data.username}. Start reading news at ${env.FRONTEND_URL || 'http://localhost:3000'}`,
       },
       
+      emailVerification: {
+        subject: 'Verify your email - NewticaX',
+        html: `
+          ${baseStyle}
+          <div class="container">
+            <div class="header">
+              <h1>Confirm Your Email</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${data.name},</h2>
+              <p>Please confirm the email address for your NewticaX account.</p>
+              <a href="${data.verifyUrl}" class="button">Verify Email</a>
+              <p>This link will expire in 24 hours. If you didn't create an account, you can ignore this email.</p>
+              <p>If the button doesn't work, copy and paste this link into your browser:</p>
+              <p><a href="${data.verifyUrl}">${data.verifyUrl}</a></p>
+            </div>
+            <div class="footer">
+              <p>Best regards,<br><strong>The NewticaX Team</strong></p>
+            </div>
+          </div>
+        `,
+        text: `Hello ${data.name}, please verify your NewticaX email address: ${data.verifyUrl} (expires in 24 hours).`,
+      },
+
+      accountLocked: {
+        subject: 'Your account has been temporarily locked - NewticaX',
+        html: `
+          ${baseStyle}
+          <div class="container">
+            <div class="header">
+              <h1>Account Temporarily Locked</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${data.name},</h2>
+              <p>We locked your NewticaX account after ${data.attempts} failed sign-in attempts.</p>
+              <p>You can try again after <strong>${data.lockedUntil}</strong>.</p>
+              <p>If this wasn't you, someone may be trying to guess your password. We recommend resetting it:</p>
+              <a href="${data.resetUrl}" class="button">Reset Password</a>
+            </div>
+            <div class="footer">
+              <p>Best regards,<br><strong>The NewticaX Team</strong></p>
+            </div>
+          </div>
+        `,
+        text: `Hello ${data.name}, your NewticaX account was locked after ${data.attempts} failed sign-in attempts. You can try again after ${data.lockedUntil}. If this wasn't you, reset your password: ${data.resetUrl}`,
+      },
+
+      newDeviceLogin: {
+        subject: 'New sign-in to your account - NewticaX',
+        html: `
+          ${baseStyle}
+          <div class="container">
+            <div class="header">
+              <h1>New Sign-in Detected</h1>
+            </div>
+            <div class="content">
+              <h2>Hello ${data.name},</h2>
+              <p>Your NewticaX account was just used to sign in from a device we haven't seen before.</p>
+              <ul>
+                <li><strong>Device:</strong> ${data.device}</li>
+                <li><strong>IP address:</strong> ${data.ip}</li>
+                <li><strong>Time:</strong> ${data.time}</li>
+              </ul>
+              <p>If this was you, no action is needed. If not, sign out the session and change your password:</p>
+              <a href="${data.sessionsUrl}" class="button">Review Sessions</a>
+            </div>
+            <div class="footer">
+              <p>Best regards,<br><strong>The NewticaX Team</strong></p>
+            </div>
+          </div>
+        `,
+        text: `Hello ${data.name}, your NewticaX account signed in from a new device (${data.device}, IP ${data.ip}) at ${data.time}. If this wasn't you, review your sessions: ${data.sessionsUrl}`,
+      },
+
       passwordReset: {
         subject: 'Password Reset Request - NewticaX',
         html: `
@@ -341,6 +435,39 @@ export class EmailService {
     });
   }
 
+  // Send email verification link
+  static async sendVerificationEmail(userEmail: string, verificationData: VerificationData): Promise<boolean> {
+    const template = this.getTemplate('emailVerification', verificationData);
+    return await this.sendEmail({
+      to: userEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    });
+  }
+
+  // Send account lockout warning
+  static async sendAccountLockedEmail(userEmail: string, lockedData: AccountLockedData): Promise<boolean> {
+    const template = this.getTemplate('accountLocked', lockedData);
+    return await this.sendEmail({
+      to: userEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    });
+  }
+
+  // Send new device sign-in alert
+  static async sendNewDeviceLoginEmail(userEmail: string, loginData: NewDeviceLoginData): Promise<boolean> {
+    const template = this.getTemplate('newDeviceLogin', loginData);
+    return await this.sendEmail({
+      to: userEmail,
+      subject: template.subject,
+      html: template.html,
+      text: template.text,
+    });
+  }
+
   // Send new article notification
   static async sendNewArticleNotification(subscribers: string[], articleData: ArticleData): Promise<boolean> {
     if (!Array.isArray(subscribers) || subscribers.length === 0) {
@@ -0,0 +1,179 @@
+import { Follow, FollowTarget, Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { deleteCachedPattern } from '../utils/cache';
+import { notDeleted } from '../utils/softDelete';
+import { logger } from '../utils/logger';
+
+export interface FollowedIds {
+  authors: string[];
+  categories: string[];
+  tags: string[];
+}
+
+// Roles whose articles can be followed
+const AUTHOR_ROLES: Role[] = [Role.AUTHOR, Role.EDITOR, Role.ADMIN];
+
+export class FollowService {
+  static async follow(userId: string, targetType: FollowTarget, targetId: string): Promise<Follow> {
+    await this.assertTargetExists(userId, targetType, targetId);
+
+    try {
+      const follow = await prisma.follow.create({
+        data: { userId, targetType, targetId },
+      });
+
+      await this.invalidateRecommendations(userId);
+      return follow;
+    } catch (error) {
+      // Already following; following twice is not an error
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return prisma.follow.findUniqueOrThrow({
+          where: { userId_targetType_targetId: { userId, targetType, targetId } },
+        });
+      }
+      throw error;
+    }
+  }
+
+  static async unfollow(userId: string, targetType: FollowTarget, targetId: string): Promise<void> {
+    const { count } = await prisma.follow.deleteMany({
+      where: { userId, targetType, targetId },
+    });
+
+    if (count === 0) {
+      throw new AppError('You are not following this', 404);
+    }
+
+    await this.invalidateRecommendations(userId);
+  }
+
+  // What the user follows, with the followed author, category or tag resolved
+  static async listFollowing(userId: string, targetType?: FollowTarget) {
+    const follows = await prisma.follow.findMany({
+      where: { userId, ...(targetType && { targetType }) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const idsOf = (type: FollowTarget) =>
+      follows.filter((follow) => follow.targetType === type).map((follow) => follow.targetId);
+
+    const [authors, categories, tags] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: idsOf(FollowTarget.AUTHOR) }, ...notDeleted },
+        select: { id: true, name: true, username: true, image: true },
+      }),
+      prisma.category.findMany({
+        where: { id: { in: idsOf(FollowTarget.CATEGORY) } },
+        select: { id: true, name: true, slug: true },
+      }),
+      prisma.tag.findMany({
+        where: { id: { in: idsOf(FollowTarget.TAG) } },
+        select: { id: true, name: true, slug: true },
+      }),
+    ]);
+
+    const targets: Record<FollowTarget, Array<{ id: string }>> = {
+      AUTHOR: authors,
+      CATEGORY: categories,
+      TAG: tags,
+    };
+
+    // Targets that no longer exist (or are in the trash) are left out
+    return follows.flatMap((follow) => {
+      const target = targets[follow.targetType].find((item) => item.id === follow.targetId);
+      return target ? [{ targetType: follow.targetType, target, followedAt: follow.createdAt }] : [];
+    });
+  }
+
+  static async getFollowedIds(userId: string): Promise<FollowedIds> {
+    const follows = await prisma.follow.findMany({
+      where: { userId },
+      select: { targetType: true, targetId: true },
+    });
+
+    const idsOf = (type: FollowTarget) =>
+      follows.filter((follow) => follow.targetType === type).map((follow) => follow.targetId);
+
+    return {
+      authors: idsOf(FollowTarget.AUTHOR),
+      categories: idsOf(FollowTarget.CATEGORY),
+      tags: idsOf(FollowTarget.TAG),
+    };
+  }
+
+  // Follower and following counts shown on profiles
+  static async getCounts(userId: string): Promise<{ followers: number; following: number }> {
+    const [followers, following] = await Promise.all([
+      prisma.follow.count({
+        where: { targetType: FollowTarget.AUTHOR, targetId: userId, user: notDeleted },
+      }),
+      prisma.follow.count({ where: { userId } }),
+    ]);
+
+    return { followers, following };
+  }
+
+  // Followers of any of the given authors, for publication notifications
+  static async getAuthorFollowerIds(authorIds: string[]): Promise<string[]> {
+    if (authorIds.length === 0) {
+      return [];
+    }
+
+    const follows = await prisma.follow.findMany({
+      where: { targetType: FollowTarget.AUTHOR, targetId: { in: authorIds } },
+      select: { userId: true },
+    });
+
+    return [...new Set(follows.map((follow) => follow.userId))];
+  }
+
+  // Follows have no foreign key on the target, so deleting a target must clean them up
+  static async removeTarget(targetType: FollowTarget, targetId: string): Promise<number> {
+    const { count } = await prisma.follow.deleteMany({ where: { targetType, targetId } });
+
+    if (count > 0) {
+      logger.info('Follows removed with their target', { targetType, targetId, count });
+    }
+
+    return count;
+  }
+
+  private static async assertTargetExists(userId: string, targetType: FollowTarget, targetId: string): Promise<void> {
+    if (targetType === FollowTarget.AUTHOR) {
+      if (targetId === userId) {
+        throw new AppError('You cannot follow yourself', 400);
+      }
+
+      const author = await prisma.user.findFirst({
+        where: { id: targetId, ...notDeleted },
+        select: { role: true },
+      });
+
+      if (!author) {
+        throw new AppError('Author not found', 404);
+      }
+
+      if (!AUTHOR_ROLES.includes(author.role)) {
+        throw new AppError('Only authors can be followed', 400);
+      }
+      return;
+    }
+
+    const exists =
+      targetType === FollowTarget.CATEGORY
+        ? await prisma.category.findUnique({ where: { id: targetId }, select: { id: true } })
+        : await prisma.tag.findUnique({ where: { id: targetId }, select: { id: true } });
+
+    if (!exists) {
+      throw new AppError(targetType === FollowTarget.CATEGORY ? 'Category not found' : 'Tag not found', 404);
+    }
+  }
+
+  // Recommendations are cached per user and weight what they follow
+  private static async invalidateRecommendations(userId: string): Promise<void> {
+    await deleteCachedPattern(`recommended:${userId}:*`);
+  }
+}
+
+export default FollowService;
@@ -0,0 +1,110 @@
+import path from 'path';
+import sharp from 'sharp';
+import { uploadConfig } from '../config/upload';
+import { env } from '../config/env';
+import { getFileUrl, deleteFile } from '../middlewares/upload.middleware';
+import { getStorage } from './storage.service';
+
+export type ImageVariantName = keyof typeof uploadConfig.images.formats;
+
+export interface ImageVariant {
+  path: string;
+  url: string;
+  width: number;
+  height: number;
+  size: number;
+  format: string;
+}
+
+export type ImageVariants = Partial<Record<ImageVariantName, ImageVariant>>;
+
+// What API responses expose - storage paths and sizes stay internal
+export type PublicImageVariants = Partial<
+  Record<ImageVariantName, Pick<ImageVariant, 'url' | 'width' | 'height' | 'format'>>
+>;
+
+export interface ProcessedImage {
+  width: number | null;
+  height: number | null;
+  variants: ImageVariants;
+}
+
+const uploadRoot = path.join(process.cwd(), env.UPLOAD_DIR);
+
+export class ImageService {
+  // Write the configured variants next to the local original (e.g. photo_123_medium.webp)
+  static async generateVariants(relativePath: string): Promise<ProcessedImage> {
+    const sourcePath = path.join(uploadRoot, relativePath);
+    const metadata = await sharp(sourcePath).metadata();
+    const variants: ImageVariants = {};
+
+    if (!uploadConfig.images.enableProcessing) {
+      return { width: metadata.width ?? null, height: metadata.height ?? null, variants };
+    }
+
+    const format = uploadConfig.images.defaultFormat as keyof sharp.FormatEnum;
+    const extension = path.extname(relativePath);
+    const basePath = relativePath.slice(0, relativePath.length - extension.length);
+
+    for (const [name, spec] of Object.entries(uploadConfig.images.formats) as Array<
+      [ImageVariantName, { width: number; height: number; quality: number }]
+    >) {
+      const variantPath = `${basePath}_${name}.${format}`;
+
+      // Thumbnails are cropped squares; larger sizes keep the aspect ratio and never upscale
+      const info = await sharp(sourcePath)
+        .rotate()
+        .resize(spec.width, spec.height, {
+          fit: name === 'thumbnail' ? 'cover' : 'inside',
+          withoutEnlargement: name !== 'thumbnail',
+        })
+        .toFormat(format, { quality: spec.quality })
+        .toFile(path.join(uploadRoot, variantPath));
+
+      variants[name] = {
+        path: variantPath,
+        url: getFileUrl(variantPath),
+        width: info.width,
+        height: info.height,
+        size: info.size,
+        format,
+      };
+    }
+
+    return { width: metadata.width ?? null, height: metadata.height ?? null, variants };
+  }
+
+  // Hand locally generated variants to the storage driver (no-op for local disk)
+  static async persistVariants(variants: ImageVariants): Promise<void> {
+    const storage = getStorage();
+
+    for (const variant of Object.values(variants)) {
+      if (variant) {
+        await storage.persist(variant.path, path.join(uploadRoot, variant.path), `image/${variant.format}`);
+      }
+    }
+  }
+
+  static async deleteVariants(variants: ImageVariants | null | undefined): Promise<void> {
+    if (!variants) {
+      return;
+    }
+
+    await Promise.all(
+      Object.values(variants)
+        .filter((variant): variant is ImageVariant => !!variant?.path)
+        .map((variant) => deleteFile(variant.path))
+    );
+  }
+
+  // srcset string ordered by width, e.g. "a.webp 150w, b.webp 500w"
+  static buildSrcset(variants: ImageVariants, prefix: string = ''): string {
+    return Object.values(variants)
+      .filter((variant): variant is ImageVariant => !!variant)
+      .sort((a, b) => a.width - b.width)
+      .map((variant) => `${prefix}${variant.url} ${variant.width}w`)
+      .join(', ');
+  }
+}
+
+export default ImageService;
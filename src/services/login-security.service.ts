@@ -0,0 +1,164 @@
+import { Session } from '@prisma/client';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import {
+  cacheIncrement,
+  getCachedData,
+  setCachedData,
+  deleteCachedData,
+} from '../utils/cache';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { EmailService } from './email.service';
+
+export interface LockStatus {
+  locked: boolean;
+  lockedUntil: Date | null;
+  retryAfterSeconds: number;
+}
+
+// Repeat lockouts within a day double the lock duration
+const LOCK_LEVEL_TTL = 24 * 60 * 60;
+
+// Per-account failure tracking in the shared cache, so attempts from many IPs still add up
+export class LoginSecurityService {
+  static async getLockStatus(userId: string): Promise<LockStatus> {
+    const lock: { until: number } | null = await getCachedData(this.lockKey(userId));
+
+    if (!lock || lock.until <= Date.now()) {
+      return { locked: false, lockedUntil: null, retryAfterSeconds: 0 };
+    }
+
+    return {
+      locked: true,
+      lockedUntil: new Date(lock.until),
+      retryAfterSeconds: Math.ceil((lock.until - Date.now()) / 1000),
+    };
+  }
+
+  // Count a failed attempt; locks the account once the threshold is reached
+  static async recordFailure(
+    user: { id: string; name: string; email: string },
+    ip: string,
+    userAgent: string
+  ): Promise<LockStatus> {
+    const windowSeconds = Math.ceil(env.ACCOUNT_LOCKOUT_WINDOW / 1000);
+    const failures = await cacheIncrement(this.failuresKey(user.id), 1, windowSeconds);
+
+    if (failures < env.ACCOUNT_LOCKOUT_THRESHOLD) {
+      return { locked: false, lockedUntil: null, retryAfterSeconds: 0 };
+    }
+
+    const level = await cacheIncrement(this.levelKey(user.id), 1, LOCK_LEVEL_TTL);
+    const duration = Math.min(
+      env.ACCOUNT_LOCKOUT_BASE_DURATION * 2 ** Math.max(level - 1, 0),
+      env.ACCOUNT_LOCKOUT_MAX_DURATION
+    );
+    const lockedUntil = new Date(Date.now() + duration);
+    const durationSeconds = Math.ceil(duration / 1000);
+
+    await setCachedData(this.lockKey(user.id), { until: lockedUntil.getTime() }, durationSeconds);
+    await deleteCachedData(this.failuresKey(user.id));
+
+    logger.warn('Account locked after repeated failed logins', {
+      userId: user.id,
+      failures,
+      level,
+      lockedUntil,
+      ip,
+    });
+
+    await AuditService.logSecurityEvent(
+      'account_locked',
+      { failures, level, lockedUntil, userAgent },
+      ip,
+      user.id
+    );
+
+    EmailService.sendAccountLockedEmail(user.email, {
+      name: user.name,
+      attempts: failures,
+      lockedUntil: lockedUntil.toUTCString(),
+      resetUrl: `${env.FRONTEND_URL}/forgot-password`,
+    }).catch((error) => {
+      logger.error('Failed to send account locked email', { error, userId: user.id });
+    });
+
+    return { locked: true, lockedUntil, retryAfterSeconds: durationSeconds };
+  }
+
+  // Successful login clears the failure window; the lock level decays on its own
+  static async recordSuccess(userId: string): Promise<void> {
+    await deleteCachedData(this.failuresKey(userId));
+  }
+
+  static async unlock(userId: string): Promise<void> {
+    await Promise.all([
+      deleteCachedData(this.lockKey(userId)),
+      deleteCachedData(this.failuresKey(userId)),
+      deleteCachedData(this.levelKey(userId)),
+    ]);
+  }
+
+  // Must run before the new session is stored. The first ever login is not treated as new.
+  static async isNewDevice(userId: string, ip: string | null, userAgent: string | null): Promise<boolean> {
+    const previousSessions = await prisma.session.count({ where: { userId } });
+
+    if (previousSessions === 0) {
+      return false;
+    }
+
+    const match = await prisma.session.findFirst({
+      where: {
+        userId,
+        OR: [
+          ...(userAgent ? [{ userAgent }] : []),
+          ...(ip ? [{ ip }] : []),
+        ],
+      },
+      select: { id: true },
+    });
+
+    return !match;
+  }
+
+  static async notifyNewDevice(userId: string, session: Session): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { name: true, email: true },
+    });
+
+    if (!user) {
+      return;
+    }
+
+    await AuditService.logSecurityEvent(
+      'new_device_login',
+      { sessionId: session.id, device: session.device, userAgent: session.userAgent },
+      session.ip || undefined,
+      userId
+    );
+
+    await EmailService.sendNewDeviceLoginEmail(user.email, {
+      name: user.name,
+      device: session.device || 'Unknown device',
+      ip: session.ip || 'unknown',
+      time: session.createdAt.toUTCString(),
+      sessionsUrl: `${env.FRONTEND_URL}/settings/security`,
+    });
+  }
+
+  private static failuresKey(userId: string): string {
+    return `lockout:failures:${userId}`;
+  }
+
+  private static lockKey(userId: string): string {
+    return `lockout:until:${userId}`;
+  }
+
+  private static levelKey(userId: string): string {
+    return `lockout:level:${userId}`;
+  }
+}
+
+export default LoginSecurityService;
@@ -0,0 +1,268 @@
+import fs from 'fs';
+import path from 'path';
+import { Media, MediaKind, Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { AppError } from '../utils/errorHandler';
+import { getFileUrl, deleteFile, validateUploadedFile, IMAGE_EXTENSIONS } from '../middlewares/upload.middleware';
+import { getStorage } from './storage.service';
+import { ImageService, ImageVariants, PublicImageVariants, ProcessedImage } from './image.service';
+import { logger } from '../utils/logger';
+
+export interface MediaUsage {
+  articles: Array<{ id: string; title: string; slug: string }>;
+  articleCount: number;
+  userCount: number;
+  categoryCount: number;
+  inUse: boolean;
+}
+
+export interface MediaListFilters {
+  ownerId?: string;
+  kind?: MediaKind;
+  page: number;
+  limit: number;
+}
+
+const uploadRoot = path.join(process.cwd(), env.UPLOAD_DIR);
+
+// Leading bytes of the image formats multer lets through
+const IMAGE_SIGNATURES: Array<{ mimeType: string; matches: (header: Buffer) => boolean }> = [
+  { mimeType: 'image/jpeg', matches: (h) => h[0] === 0xff && h[1] === 0xd8 && h[2] === 0xff },
+  { mimeType: 'image/png', matches: (h) => h.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/gif', matches: (h) => h.subarray(0, 6).toString('ascii') === 'GIF87a' || h.subarray(0, 6).toString('ascii') === 'GIF89a' },
+  { mimeType: 'image/webp', matches: (h) => h.subarray(0, 4).toString('ascii') === 'RIFF' && h.subarray(8, 12).toString('ascii') === 'WEBP' },
+];
+
+export class MediaService {
+  // Record an uploaded image; the file is removed again if it is not what it claims to be
+  static async createFromUpload(file: Express.Multer.File, ownerId: string, kind: MediaKind): Promise<Media> {
+    try {
+      const validation = validateUploadedFile(file);
+      if (!validation.valid) {
+        throw new AppError(validation.error || 'Invalid file', 400);
+      }
+
+      // The multer mime type comes from the client, so check the actual bytes
+      const detectedType = this.detectImageType(file.path);
+      if (!detectedType || detectedType !== file.mimetype) {
+        throw new AppError('File content does not match an allowed image type', 400);
+      }
+
+      // Name the stored file after the detected type so it is never served as anything else
+      const storedPath = file.path.slice(0, file.path.length - path.extname(file.path).length) + IMAGE_EXTENSIONS[detectedType];
+      if (storedPath !== file.path) {
+        fs.renameSync(file.path, storedPath);
+        file.path = storedPath;
+      }
+
+      const relativePath = path.relative(uploadRoot, file.path).replace(/\\/g, '/');
+
+      // A failed resize still leaves a usable original, so it does not fail the upload
+      let processed: ProcessedImage = { width: null, height: null, variants: {} };
+      try {
+        processed = await ImageService.generateVariants(relativePath);
+      } catch (error) {
+        logger.error('Image variant generation failed', {
+          path: relativePath,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      try {
+        await getStorage().persist(relativePath, file.path, detectedType);
+        await ImageService.persistVariants(processed.variants);
+
+        return await prisma.media.create({
+          data: {
+            ownerId,
+            kind,
+            path: relativePath,
+            url: getFileUrl(relativePath),
+            originalName: file.originalname.substring(0, 255),
+            mimeType: detectedType,
+            size: file.size,
+            width: processed.width,
+            height: processed.height,
+            variants: processed.variants as Prisma.InputJsonValue,
+          },
+        });
+      } catch (error) {
+        await deleteFile(relativePath);
+        await ImageService.deleteVariants(processed.variants);
+        throw error;
+      }
+    } catch (error) {
+      this.removeUploadedFile(file);
+      throw error;
+    }
+  }
+
+  static async findById(id: string): Promise<Media | null> {
+    return prisma.media.findUnique({ where: { id } });
+  }
+
+  static async list(filters: MediaListFilters): Promise<{ media: Media[]; total: number }> {
+    const where: Prisma.MediaWhereInput = {};
+
+    if (filters.ownerId) {
+      where.ownerId = filters.ownerId;
+    }
+
+    if (filters.kind) {
+      where.kind = filters.kind;
+    }
+
+    const [media, total] = await Promise.all([
+      prisma.media.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (filters.page - 1) * filters.limit,
+        take: filters.limit,
+      }),
+      prisma.media.count({ where }),
+    ]);
+
+    return { media, total };
+  }
+
+  // References are stored as free-text URLs (absolute or relative), so match on the path
+  static async getUsage(media: Media): Promise<MediaUsage> {
+    const articleWhere: Prisma.ArticleWhereInput = {
+      OR: [
+        { image: { contains: media.url } },
+        { content: { contains: media.url } },
+      ],
+    };
+
+    const [articles, articleCount, userCount, categoryCount] = await Promise.all([
+      prisma.article.findMany({
+        where: articleWhere,
+        select: { id: true, title: true, slug: true },
+        take: 20,
+      }),
+      prisma.article.count({ where: articleWhere }),
+      prisma.user.count({ where: { image: { contains: media.url } } }),
+      prisma.category.count({ where: { image: { contains: media.url } } }),
+    ]);
+
+    return {
+      articles,
+      articleCount,
+      userCount,
+      categoryCount,
+      inUse: articleCount > 0 || userCount > 0 || categoryCount > 0,
+    };
+  }
+
+  // Refuses while any article still points at the file; avatars in use are cleared first
+  static async delete(media: Media, usage?: MediaUsage): Promise<void> {
+    usage = usage || (await this.getUsage(media));
+
+    if (this.isBlockingDelete(usage)) {
+      throw new AppError('Media is still referenced and cannot be deleted', 409);
+    }
+
+    if (usage.userCount > 0) {
+      await prisma.user.updateMany({
+        where: { image: { contains: media.url } },
+        data: { image: null },
+      });
+    }
+
+    await prisma.media.delete({ where: { id: media.id } });
+    await deleteFile(media.path);
+    await ImageService.deleteVariants(media.variants as ImageVariants | null);
+
+    logger.info('Media deleted', { mediaId: media.id, path: media.path });
+  }
+
+  // Adds imageVariants/imageSrcset to anything with an image URL pointing at our uploads
+  static async attachImageVariants<T extends { image?: string | null }>(
+    items: T[]
+  ): Promise<Array<T & { imageVariants: PublicImageVariants | null; imageSrcset: string | null }>> {
+    const urls = Array.from(
+      new Set(items.map((item) => this.toMediaUrl(item.image)).filter((url): url is string => !!url))
+    );
+
+    const media = urls.length
+      ? await prisma.media.findMany({
+          where: { url: { in: urls } },
+          select: { url: true, variants: true },
+        })
+      : [];
+    const variantsByUrl = new Map(media.map((item) => [item.url, item.variants as ImageVariants | null]));
+
+    return items.map((item) => {
+      const mediaUrl = this.toMediaUrl(item.image);
+      const variants = mediaUrl ? variantsByUrl.get(mediaUrl) : null;
+
+      if (!item.image || !mediaUrl || !variants || Object.keys(variants).length === 0) {
+        return { ...item, imageVariants: null, imageSrcset: null };
+      }
+
+      // Keep the host of the stored URL so absolute images get absolute variants
+      const origin = mediaUrl.startsWith('/') ? item.image.slice(0, item.image.indexOf(mediaUrl)) : '';
+      const imageVariants = Object.fromEntries(
+        Object.entries(variants).map(([name, variant]) => [
+          name,
+          { url: `${origin}${variant!.url}`, width: variant!.width, height: variant!.height, format: variant!.format },
+        ])
+      ) as PublicImageVariants;
+
+      return {
+        ...item,
+        imageVariants,
+        imageSrcset: ImageService.buildSrcset(variants, origin),
+      };
+    });
+  }
+
+  static async attachImageVariant<T extends { image?: string | null }>(item: T) {
+    const [result] = await this.attachImageVariants([item]);
+    return result;
+  }
+
+  static isBlockingDelete(usage: MediaUsage): boolean {
+    return usage.articleCount > 0 || usage.categoryCount > 0;
+  }
+
+  // Media.url for an image field: the "/uploads/..." part for local files, the full URL for CDN/bucket files
+  private static toMediaUrl(image?: string | null): string | null {
+    if (!image) {
+      return null;
+    }
+
+    const clean = image.split(/[?#]/)[0];
+    const index = clean.indexOf('/uploads/');
+    return index === -1 ? clean : clean.slice(index);
+  }
+
+  private static detectImageType(filePath: string): string | null {
+    const header = Buffer.alloc(12);
+    const fd = fs.openSync(filePath, 'r');
+
+    try {
+      fs.readSync(fd, header, 0, header.length, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    return IMAGE_SIGNATURES.find((signature) => signature.matches(header))?.mimeType || null;
+  }
+
+  private static removeUploadedFile(file: Express.Multer.File): void {
+    if (file.path && fs.existsSync(file.path)) {
+      try {
+        fs.unlinkSync(file.path);
+      } catch (error) {
+        logger.error('Failed to remove rejected upload', {
+          path: file.path,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+}
+
+export default MediaService;
@@ -2,7 +2,7 @@ import axios from 'axios';
 import slugify from 'slugify';
 import { prisma } from '../config/db';
 import { env } from '../config/env';
-import { Language } from '@prisma/client';
+import { ArticleStatus, Language } from '@prisma/client';
 
 interface NewsAPIParams {
   q?: string;
@@ -222,6 +222,7 @@ export const syncNewsFromAPI = async (categories: string[] = ['general'], langua
                   isExternal: true,
                   categoryId: categoryRecord.id,
                   language,
+                  status: ArticleStatus.PUBLISHED,
                   publishedAt: new Date(article.publishedAt),
                 },
               });
@@ -0,0 +1,288 @@
+import { EventEmitter } from 'events';
+import { Redis } from 'ioredis';
+import { ContributorRole, FollowTarget, Notification, Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { RedisConfig } from '../config/redis';
+import { env } from '../config/env';
+import { EmailService } from './email.service';
+import { FollowService } from './follow.service';
+import { logger } from '../utils/logger';
+import { notDeleted } from '../utils/softDelete';
+
+type NotificationListener = (notification: Notification) => void;
+
+const CHANNEL = 'newticax:notifications';
+const BROADCAST_BATCH_SIZE = 500;
+
+export class NotificationService {
+  private static emitter = new EventEmitter();
+  private static subscriber: Redis | null = null;
+  private static useRedis = false;
+
+  // Set up Redis fan-out when available, otherwise stay on the in-process emitter
+  static async initialize(): Promise<void> {
+    // One listener per open stream, so the default cap of 10 does not apply
+    this.emitter.setMaxListeners(0);
+
+    if (this.subscriber) {
+      return;
+    }
+
+    const connected = await RedisConfig.connect();
+    const publisher = RedisConfig.getInstance();
+
+    if (!connected || !publisher) {
+      logger.info('Notification fan-out using in-process event emitter');
+      return;
+    }
+
+    try {
+      // A subscribed connection cannot issue other commands, so use a dedicated one
+      this.subscriber = publisher.duplicate();
+
+      this.subscriber.on('message', (channel: string, message: string) => {
+        if (channel !== CHANNEL) {
+          return;
+        }
+
+        try {
+          const notification = JSON.parse(message);
+          notification.createdAt = new Date(notification.createdAt);
+          this.emitLocal(notification);
+        } catch (error) {
+          logger.error('Invalid notification message received', { error });
+        }
+      });
+
+      this.subscriber.on('error', (error) => {
+        logger.error('Notification subscriber error', { error: error.message });
+      });
+
+      await this.subscriber.subscribe(CHANNEL);
+      this.useRedis = true;
+      logger.info('Notification fan-out using Redis pub/sub', { channel: CHANNEL });
+    } catch (error) {
+      logger.warn('Redis pub/sub unavailable, falling back to in-process emitter', { error });
+      this.subscriber?.disconnect();
+      this.subscriber = null;
+      this.useRedis = false;
+    }
+  }
+
+  // Create a notification and push it to any open streams of the recipient
+  static async create(data: Prisma.NotificationUncheckedCreateInput): Promise<Notification> {
+    const notification = await prisma.notification.create({ data });
+    await this.publish(notification);
+    return notification;
+  }
+
+  // Create the same notification for many users and push each one
+  static async createForUsers(
+    userIds: string[],
+    data: Omit<Prisma.NotificationUncheckedCreateInput, 'userId'>
+  ): Promise<number> {
+    let created = 0;
+
+    for (let i = 0; i < userIds.length; i += BROADCAST_BATCH_SIZE) {
+      const batch = userIds.slice(i, i + BROADCAST_BATCH_SIZE);
+      const createdAt = new Date();
+
+      await prisma.notification.createMany({
+        data: batch.map(userId => ({ ...data, userId, createdAt })),
+      });
+
+      // createMany does not return rows, so read the batch back to publish it
+      const notifications = await prisma.notification.findMany({
+        where: {
+          userId: { in: batch },
+          type: data.type,
+          relatedId: data.relatedId ?? null,
+          createdAt,
+        },
+      });
+
+      await Promise.all(notifications.map(notification => this.publish(notification)));
+      created += notifications.length;
+    }
+
+    return created;
+  }
+
+  static async publish(notification: Notification): Promise<void> {
+    if (this.useRedis && RedisConfig.getConnectionStatus()) {
+      try {
+        await RedisConfig.getInstance()!.publish(CHANNEL, JSON.stringify(notification));
+        return;
+      } catch (error) {
+        logger.warn('Notification publish failed, delivering locally', {
+          error: (error as Error).message,
+          notificationId: notification.id,
+        });
+      }
+    }
+
+    this.emitLocal(notification);
+  }
+
+  // Returns an unsubscribe function
+  static subscribe(userId: string, listener: NotificationListener): () => void {
+    const event = this.eventName(userId);
+    this.emitter.on(event, listener);
+
+    return () => {
+      this.emitter.off(event, listener);
+    };
+  }
+
+  static getListenerCount(userId?: string): number {
+    if (userId) {
+      return this.emitter.listenerCount(this.eventName(userId));
+    }
+
+    return this.emitter
+      .eventNames()
+      .reduce((total, event) => total + this.emitter.listenerCount(event), 0);
+  }
+
+  // Tell followers of the article's authors, plus readers subscribed to its category
+  // (in-app, and by email for those who opted in)
+  static async notifyArticlePublished(articleId: string): Promise<{ notified: number; emailed: number }> {
+    const article = await prisma.article.findUnique({
+      where: { id: articleId },
+      select: {
+        id: true,
+        title: true,
+        slug: true,
+        summary: true,
+        categoryId: true,
+        authorId: true,
+        author: { select: { name: true } },
+        category: { select: { name: true } },
+        contributors: {
+          where: { role: { in: [ContributorRole.AUTHOR, ContributorRole.CO_AUTHOR] } },
+          select: { userId: true },
+        },
+      },
+    });
+
+    if (!article) {
+      return { notified: 0, emailed: 0 };
+    }
+
+    const authorIds = [
+      ...new Set([
+        ...(article.authorId ? [article.authorId] : []),
+        ...article.contributors.map(contributor => contributor.userId),
+      ]),
+    ];
+
+    const recipientSelect = {
+      id: true,
+      email: true,
+      preference: { select: { emailUpdates: true } },
+    } as const;
+
+    // Follows are explicit, so only an explicit opt-out of notifications stops these
+    const notificationsOn = {
+      OR: [{ preference: { is: null } }, { preference: { is: { notifications: true } } }],
+    };
+
+    const followerIds = await FollowService.getAuthorFollowerIds(authorIds);
+    const followers = followerIds.length
+      ? await prisma.user.findMany({
+          where: {
+            id: { in: followerIds.filter(id => !authorIds.includes(id)) },
+            ...notDeleted,
+            ...notificationsOn,
+          },
+          select: recipientSelect,
+        })
+      : [];
+
+    const categoryFollowerIds = article.categoryId
+      ? await prisma.follow.findMany({
+          where: { targetType: FollowTarget.CATEGORY, targetId: article.categoryId },
+          select: { userId: true },
+        })
+      : [];
+
+    const subscribers = article.categoryId
+      ? await prisma.user.findMany({
+          where: {
+            id: { notIn: [...authorIds, ...followers.map(user => user.id)] },
+            ...notDeleted,
+            OR: [
+              { preference: { is: { categories: { has: article.categoryId }, notifications: true } } },
+              { id: { in: categoryFollowerIds.map(follow => follow.userId) }, ...notificationsOn },
+            ],
+          },
+          select: recipientSelect,
+        })
+      : [];
+
+    const authorName = article.author?.name || 'An author you follow';
+    const notified =
+      (await this.createForUsers(
+        followers.map(user => user.id),
+        {
+          type: 'article_published',
+          message: `${authorName} published "${article.title}"`,
+          relatedId: article.id,
+        }
+      )) +
+      (await this.createForUsers(
+        subscribers.map(user => user.id),
+        {
+          type: 'article_published',
+          message: `New in ${article.category?.name || 'your feed'}: ${article.title}`,
+          relatedId: article.id,
+        }
+      ));
+
+    const emailData = {
+      title: article.title,
+      authorName: article.author?.name || 'NewticaX',
+      articleUrl: `${env.FRONTEND_URL}/articles/${article.slug}`,
+      summary: article.summary,
+      categoryName: article.category?.name || '',
+    };
+
+    // One message per recipient so addresses are not shared
+    const { success: emailed } = await EmailService.sendBulkEmails(
+      [...followers, ...subscribers]
+        .filter(user => user.preference?.emailUpdates)
+        .map(user => ({ to: user.email, data: emailData })),
+      'newArticle'
+    );
+
+    logger.info('Article publication notifications sent', {
+      articleId,
+      followers: followers.length,
+      subscribers: subscribers.length,
+      notified,
+      emailed,
+    });
+    return { notified, emailed };
+  }
+
+  static async shutdown(): Promise<void> {
+    this.emitter.removeAllListeners();
+
+    if (this.subscriber) {
+      await this.subscriber.quit().catch(() => undefined);
+      this.subscriber = null;
+    }
+
+    this.useRedis = false;
+  }
+
+  private static emitLocal(notification: Notification): void {
+    this.emitter.emit(this.eventName(notification.userId), notification);
+  }
+
+  private static eventName(userId: string): string {
+    return `notification:${userId}`;
+  }
+}
+
+export default NotificationService;
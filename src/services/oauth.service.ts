@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { User } from '@prisma/client';
+import {
+  OAuthProviderConfig,
+  OAuthProviderName,
+  getCallbackUrl,
+} from '../config/passport';
+import { AppError } from '../utils/errorHandler';
+import { getCachedData, setCachedData, deleteCachedData } from '../utils/cache';
+import { findOrCreateUserFromProvider, OAuthProfile } from './auth.service';
+import { logger } from '../utils/logger';
+
+interface PendingAuthorization {
+  provider: OAuthProviderName;
+  codeVerifier: string;
+  redirectTo: string | null;
+}
+
+export interface AuthorizationRequest {
+  url: string;
+  state: string;
+}
+
+export const OAUTH_STATE_TTL = 10 * 60; // seconds
+const HTTP_TIMEOUT = 10000;
+
+const base64Url = (buffer: Buffer): string =>
+  buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export class OAuthService {
+  // Build the provider redirect; state and PKCE verifier are kept server side until the callback
+  static async createAuthorizationRequest(
+    config: OAuthProviderConfig,
+    redirectTo: string | null
+  ): Promise<AuthorizationRequest> {
+    const state = base64Url(crypto.randomBytes(32));
+    const codeVerifier = base64Url(crypto.randomBytes(32));
+    const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+
+    const pending: PendingAuthorization = {
+      provider: config.name,
+      codeVerifier,
+      redirectTo,
+    };
+    await setCachedData(this.stateKey(state), pending, OAUTH_STATE_TTL);
+
+    const params = new URLSearchParams({
+      client_id: config.clientId,
+      redirect_uri: getCallbackUrl(config.name),
+      response_type: 'code',
+      scope: config.scope,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    if (config.name === 'google') {
+      params.set('prompt', 'select_account');
+    }
+
+    return { url: `${config.authorizeUrl}?${params.toString()}`, state };
+  }
+
+  // Validate state, exchange the code and resolve the local user
+  static async handleCallback(
+    config: OAuthProviderConfig,
+    params: { code?: string; state?: string; cookieState?: string }
+  ): Promise<{ user: User; redirectTo: string | null }> {
+    const { code, state, cookieState } = params;
+
+    if (!code || !state) {
+      throw new AppError('Missing authorization code or state', 400);
+    }
+
+    // The cookie binds the state to the browser that started the flow
+    if (!cookieState || !this.safeEqual(state, cookieState)) {
+      throw new AppError('Invalid OAuth state', 400);
+    }
+
+    const pending: PendingAuthorization | null = await getCachedData(this.stateKey(state));
+    // Single use: a replayed callback finds nothing
+    await deleteCachedData(this.stateKey(state));
+
+    if (!pending || pending.provider !== config.name) {
+      throw new AppError('OAuth state expired or invalid', 400);
+    }
+
+    const accessToken = await this.exchangeCode(config, code, pending.codeVerifier);
+    const profile = await this.fetchProfile(config, accessToken);
+
+    const user = await findOrCreateUserFromProvider(config.provider, profile);
+
+    return { user, redirectTo: pending.redirectTo };
+  }
+
+  private static async exchangeCode(
+    config: OAuthProviderConfig,
+    code: string,
+    codeVerifier: string
+  ): Promise<string> {
+    try {
+      const response = await axios.post(
+        config.tokenUrl,
+        new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: getCallbackUrl(config.name),
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          code_verifier: codeVerifier,
+        }).toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            Accept: 'application/json',
+          },
+          timeout: HTTP_TIMEOUT,
+        }
+      );
+
+      // GitHub reports errors with a 200 and an error field
+      if (!response.data?.access_token) {
+        throw new Error(response.data?.error_description || response.data?.error || 'No access token');
+      }
+
+      return response.data.access_token;
+    } catch (error) {
+      logger.warn('OAuth code exchange failed', {
+        provider: config.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new AppError('Failed to complete sign in with provider', 502);
+    }
+  }
+
+  private static async fetchProfile(
+    config: OAuthProviderConfig,
+    accessToken: string
+  ): Promise<OAuthProfile> {
+    const headers = {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+      'User-Agent': 'NewticaX',
+    };
+
+    try {
+      const { data } = await axios.get(config.userInfoUrl, { headers, timeout: HTTP_TIMEOUT });
+
+      if (config.name === 'google') {
+        return {
+          providerAccountId: String(data.sub),
+          email: data.email ? String(data.email).toLowerCase() : null,
+          emailVerified: data.email_verified === true || data.email_verified === 'true',
+          name: data.name || data.given_name || '',
+          image: data.picture || null,
+        };
+      }
+
+      // GitHub: the public profile email is not necessarily verified, so ask for the primary one
+      let email: string | null = null;
+      let emailVerified = false;
+
+      if (config.emailsUrl) {
+        const { data: emails } = await axios.get(config.emailsUrl, { headers, timeout: HTTP_TIMEOUT });
+        const primary = Array.isArray(emails)
+          ? emails.find((entry: any) => entry.primary && entry.verified) ||
+            emails.find((entry: any) => entry.verified)
+          : null;
+
+        if (primary) {
+          email = String(primary.email).toLowerCase();
+          emailVerified = true;
+        }
+      }
+
+      if (!email && data.email) {
+        email = String(data.email).toLowerCase();
+      }
+
+      return {
+        providerAccountId: String(data.id),
+        email,
+        emailVerified,
+        name: data.name || data.login || '',
+        image: data.avatar_url || null,
+      };
+    } catch (error) {
+      logger.warn('OAuth profile request failed', {
+        provider: config.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw new AppError('Failed to load profile from provider', 502);
+    }
+  }
+
+  private static safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+  }
+
+  private static stateKey(state: string): string {
+    return `oauth:state:${state}`;
+  }
+}
+
+export default OAuthService;
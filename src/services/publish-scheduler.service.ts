@@ -0,0 +1,81 @@
+import { ArticleStatus } from '@prisma/client';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { ArticleWorkflowService } from './article-workflow.service';
+import { withLock } from '../utils/lock';
+import { logger } from '../utils/logger';
+import { notDeleted } from '../utils/softDelete';
+
+const BATCH_SIZE = 50;
+// Longer than a batch can take, short enough that a crashed replica does not stall publishing
+const LOCK_TTL = 5 * 60 * 1000;
+
+export class PublishSchedulerService {
+  // Publish every SCHEDULED article whose time has come; returns the ids published by this call
+  static async publishDueArticles(now: Date = new Date()): Promise<string[]> {
+    const published: string[] = [];
+    // Every row is tried once per call, so rows that keep failing cannot hold up the loop
+    const attempted: string[] = [];
+
+    while (true) {
+      const due = await prisma.article.findMany({
+        where: {
+          status: ArticleStatus.SCHEDULED,
+          scheduledAt: { lte: now },
+          id: { notIn: attempted },
+          ...notDeleted,
+        },
+        select: { id: true },
+        orderBy: { scheduledAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      if (due.length === 0) {
+        break;
+      }
+
+      for (const { id } of due) {
+        attempted.push(id);
+
+        try {
+          if (await ArticleWorkflowService.publishScheduled(id, now)) {
+            published.push(id);
+          }
+        } catch (error) {
+          logger.error('Scheduled publish failed', {
+            articleId: id,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      if (due.length < BATCH_SIZE) {
+        break;
+      }
+    }
+
+    if (published.length > 0) {
+      logger.info('Scheduled articles published', { count: published.length });
+    }
+
+    return published;
+  }
+}
+
+// Run alongside the NewsAPI fetcher; the lock keeps replicas from publishing the same batch
+export const startPublishScheduler = () => {
+  const tick = async () => {
+    try {
+      await withLock('publish-scheduler', LOCK_TTL, () => PublishSchedulerService.publishDueArticles());
+    } catch (error) {
+      logger.error('Publish scheduler error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  tick();
+  setInterval(tick, env.PUBLISH_SCHEDULER_INTERVAL);
+};
+
+export default PublishSchedulerService;
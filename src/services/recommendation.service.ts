@@ -0,0 +1,291 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { AppError } from '../utils/errorHandler';
+import { articleCardSelect, ArticleCard } from '../utils/articleSelect';
+import { deleteCachedPattern } from '../utils/cache';
+import { notDeleted } from '../utils/softDelete';
+import { objectIdSchema } from '../utils/validation';
+import { FollowService } from './follow.service';
+import { RecommendationParams, RecommendationReason, RecommendationResult } from '../types/api.types';
+
+// Maximum contribution of each signal; a perfect match on every signal scores their sum
+const SIGNAL_WEIGHTS = {
+  categoryPreference: 2,
+  followedAuthor: 3,
+  followedCategory: 2,
+  followedTag: 1.5,
+  readingHistory: 2,
+  likedSimilar: 2.5,
+  recency: 1.5,
+  popularity: 1,
+  trending: 0.5,
+};
+
+// Similarity to dismissed articles can take off up to this share of the score
+const NOT_INTERESTED_PENALTY = 0.6;
+const RECENCY_HALF_LIFE_DAYS = 3;
+
+// How much of the user's past is taken into account
+const HISTORY_SIZE = 50;
+const ENGAGEMENT_SIZE = 50;
+const FEEDBACK_SIZE = 100;
+
+const POOL_FACTOR = 5;
+const MAX_POOL = 150;
+const MIN_REASON_SCORE = 0.05;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Category and tag weights in [0, 1], relative to the most frequent one
+interface Affinity {
+  categories: Map<string, number>;
+  tags: Map<string, number>;
+}
+
+type ArticleTopics = { categoryId: string | null; tagIds: string[] };
+
+const buildAffinity = (articles: ArticleTopics[]): Affinity => {
+  const count = (ids: string[]) => {
+    const counts = new Map<string, number>();
+    ids.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1));
+
+    const max = Math.max(0, ...counts.values());
+    counts.forEach((value, id) => counts.set(id, value / max));
+    return counts;
+  };
+
+  return {
+    categories: count(articles.flatMap((article) => (article.categoryId ? [article.categoryId] : []))),
+    tags: count(articles.flatMap((article) => article.tagIds)),
+  };
+};
+
+// Half category match, half the best matching tag
+const affinityOf = (article: ArticleCard, affinity: Affinity): number => {
+  const category = article.category ? affinity.categories.get(article.category.id) ?? 0 : 0;
+  const tag = Math.max(0, ...article.tags.map((item) => affinity.tags.get(item.id) ?? 0));
+  return 0.5 * category + 0.5 * tag;
+};
+
+const engagementOf = (article: ArticleCard): number =>
+  article.viewCount + 3 * article._count.likes + 4 * article._count.comments + 4 * article._count.bookmarks;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export class RecommendationService {
+  // Rank candidate articles for a user and explain each pick
+  static async recommend({
+    userId,
+    language,
+    limit = 10,
+    excludeRead = true,
+    categories,
+  }: RecommendationParams): Promise<RecommendationResult> {
+    const topics = { categoryId: true, tagIds: true } as const;
+
+    const [preference, followed, history, likes, bookmarks, feedback] = await Promise.all([
+      prisma.preference.findUnique({ where: { userId }, select: { categories: true } }),
+      FollowService.getFollowedIds(userId),
+      prisma.readHistory.findMany({
+        where: { userId },
+        orderBy: { readAt: 'desc' },
+        take: HISTORY_SIZE,
+        select: { articleId: true, article: { select: topics } },
+      }),
+      prisma.like.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: ENGAGEMENT_SIZE,
+        select: { articleId: true, article: { select: topics } },
+      }),
+      prisma.bookmark.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: ENGAGEMENT_SIZE,
+        select: { articleId: true, article: { select: topics } },
+      }),
+      prisma.recommendationFeedback.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: FEEDBACK_SIZE,
+        select: { articleId: true, article: { select: topics } },
+      }),
+    ]);
+
+    const preferredCategories = preference?.categories ?? [];
+    const historyAffinity = buildAffinity(history.map((entry) => entry.article));
+    const likedAffinity = buildAffinity([...likes, ...bookmarks].map((entry) => entry.article));
+    const dismissedAffinity = buildAffinity(feedback.map((entry) => entry.article));
+
+    const coldStart =
+      preferredCategories.length === 0 &&
+      history.length === 0 &&
+      likes.length === 0 &&
+      bookmarks.length === 0 &&
+      followed.authors.length + followed.categories.length + followed.tags.length === 0;
+
+    const excludedIds = [
+      ...feedback.map((entry) => entry.articleId),
+      ...(excludeRead ? history.map((entry) => entry.articleId) : []),
+    ];
+
+    const base: Prisma.ArticleWhereInput = {
+      published: true,
+      ...notDeleted,
+      ...(language && { language }),
+      ...(categories?.length && { categoryId: { in: categories } }),
+      ...(excludedIds.length > 0 && { id: { notIn: excludedIds } }),
+    };
+
+    const candidates = await this.findCandidates(base, limit, {
+      categories: [
+        ...new Set([
+          ...preferredCategories,
+          ...historyAffinity.categories.keys(),
+          ...likedAffinity.categories.keys(),
+          ...followed.categories,
+        ]),
+      ],
+      tags: [...new Set([...historyAffinity.tags.keys(), ...likedAffinity.tags.keys(), ...followed.tags])],
+      authors: followed.authors,
+    });
+
+    const now = Date.now();
+    const maxEngagement = Math.log1p(Math.max(0, ...candidates.map(engagementOf)));
+
+    const scored = candidates.map((article) => {
+      const signals: Partial<Record<RecommendationReason, number>> = {};
+      const tagIds = article.tags.map((tag) => tag.id);
+
+      if (article.category && preferredCategories.includes(article.category.id)) {
+        signals.category_preference = SIGNAL_WEIGHTS.categoryPreference;
+      }
+
+      const following =
+        (article.author && followed.authors.includes(article.author.id) ? SIGNAL_WEIGHTS.followedAuthor : 0) +
+        (article.category && followed.categories.includes(article.category.id) ? SIGNAL_WEIGHTS.followedCategory : 0) +
+        (tagIds.some((id) => followed.tags.includes(id)) ? SIGNAL_WEIGHTS.followedTag : 0);
+      if (following > 0) {
+        signals.following = following;
+      }
+
+      signals.reading_history = SIGNAL_WEIGHTS.readingHistory * affinityOf(article, historyAffinity);
+      signals.liked_similar = SIGNAL_WEIGHTS.likedSimilar * affinityOf(article, likedAffinity);
+
+      const ageDays = Math.max(0, now - article.publishedAt.getTime()) / DAY;
+      signals.recent = SIGNAL_WEIGHTS.recency * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+      signals.popular = maxEngagement > 0 ? SIGNAL_WEIGHTS.popularity * (Math.log1p(engagementOf(article)) / maxEngagement) : 0;
+
+      if (article.isTrending) {
+        signals.trending = SIGNAL_WEIGHTS.trending;
+      }
+
+      // Being like something the user dismissed scales every signal down
+      const penalty = 1 - NOT_INTERESTED_PENALTY * affinityOf(article, dismissedAffinity);
+      const reasons = (Object.entries(signals) as Array<[RecommendationReason, number]>)
+        .map(([reason, value]) => ({ articleId: article.id, reason, score: round(value * penalty) }))
+        .filter((entry) => entry.score >= MIN_REASON_SCORE)
+        .sort((a, b) => b.score - a.score);
+
+      return {
+        article: { ...article, score: round(reasons.reduce((total, entry) => total + entry.score, 0)) },
+        reasons,
+      };
+    });
+
+    const picked = scored
+      .sort((a, b) => b.article.score - a.article.score || b.article.publishedAt.getTime() - a.article.publishedAt.getTime())
+      .slice(0, limit);
+
+    return {
+      articles: picked.map((entry) => entry.article),
+      reasons: picked.flatMap((entry) => entry.reasons),
+      coldStart,
+      refreshedAt: new Date(),
+    };
+  }
+
+  // Hide an article from the user's recommendations and down-rank similar ones
+  static async markNotInterested(userId: string, articleId: string): Promise<void> {
+    if (!objectIdSchema.safeParse(articleId).success) {
+      throw new AppError('Invalid article ID', 400);
+    }
+
+    const article = await prisma.article.findFirst({
+      where: { id: articleId, published: true, ...notDeleted },
+      select: { id: true },
+    });
+
+    if (!article) {
+      throw new AppError('Article not found', 404);
+    }
+
+    await prisma.recommendationFeedback.upsert({
+      where: { userId_articleId: { userId, articleId } },
+      create: { userId, articleId },
+      update: {},
+    });
+
+    await this.invalidate(userId);
+  }
+
+  static async undoNotInterested(userId: string, articleId: string): Promise<void> {
+    if (!objectIdSchema.safeParse(articleId).success) {
+      throw new AppError('Invalid article ID', 400);
+    }
+
+    const { count } = await prisma.recommendationFeedback.deleteMany({ where: { userId, articleId } });
+
+    if (count === 0) {
+      throw new AppError('Article is not marked as not interested', 404);
+    }
+
+    await this.invalidate(userId);
+  }
+
+  // Articles matching the user's interests, topped up with the newest articles so there is always enough to rank
+  private static async findCandidates(
+    base: Prisma.ArticleWhereInput,
+    limit: number,
+    interests: { categories: string[]; tags: string[]; authors: string[] }
+  ): Promise<ArticleCard[]> {
+    const poolSize = Math.min(limit * POOL_FACTOR, MAX_POOL);
+    const matches: Prisma.ArticleWhereInput[] = [];
+
+    if (interests.categories.length > 0) {
+      matches.push({ categoryId: { in: interests.categories } });
+    }
+    if (interests.tags.length > 0) {
+      matches.push({ tagIds: { hasSome: interests.tags } });
+    }
+    if (interests.authors.length > 0) {
+      matches.push({ authorId: { in: interests.authors } });
+    }
+
+    const [interesting, latest] = await Promise.all([
+      matches.length > 0
+        ? prisma.article.findMany({
+            where: { AND: [base, { OR: matches }] },
+            select: articleCardSelect,
+            orderBy: { publishedAt: 'desc' },
+            take: poolSize,
+          })
+        : [],
+      prisma.article.findMany({
+        where: base,
+        select: articleCardSelect,
+        orderBy: { publishedAt: 'desc' },
+        take: matches.length > 0 ? limit * 2 : poolSize,
+      }),
+    ]);
+
+    const seen = new Set(interesting.map((article) => article.id));
+    return [...interesting, ...latest.filter((article) => !seen.has(article.id))];
+  }
+
+  private static async invalidate(userId: string): Promise<void> {
+    await deleteCachedPattern(`recommended:${userId}:*`);
+  }
+}
+
+export default RecommendationService;
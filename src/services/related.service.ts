@@ -0,0 +1,138 @@
+import { Article } from '@prisma/client';
+import { prisma } from '../config/db';
+import { articleCardSelect, ArticleCard } from '../utils/articleSelect';
+import { notDeleted } from '../utils/softDelete';
+import { logger } from '../utils/logger';
+import { CacheService } from './cache.service';
+
+export interface RelatedNeighbor {
+  id: string;
+  score: number;
+}
+
+type SourceArticle = Pick<Article, 'id' | 'title' | 'summary' | 'categoryId' | 'tagIds' | 'language'>;
+
+const SIGNAL_WEIGHTS = {
+  text: 3,
+  tags: 2,
+  category: 1,
+};
+
+// Candidates compared per article, newest first
+const CANDIDATE_POOL = 500;
+// Neighbors kept in the cache; more than any page shows, so deleted ones can drop out
+const MAX_NEIGHBORS = 12;
+// Title words say more about the subject than summary words
+const TITLE_BOOST = 2;
+const MIN_TOKEN_LENGTH = 3;
+
+const STOP_WORDS = new Set([
+  // English
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'his', 'how', 'its', 'new', 'now', 'who', 'why', 'with', 'this', 'that', 'from', 'have', 'they', 'will',
+  'what', 'when', 'where', 'which', 'their', 'there', 'about', 'after', 'into', 'more', 'over', 'than', 'then',
+  'been', 'were', 'said', 'says', 'also', 'just', 'your',
+  // Indonesian
+  'yang', 'dan', 'di', 'ke', 'dari', 'ini', 'itu', 'untuk', 'dengan', 'pada', 'adalah', 'dalam', 'tidak', 'akan',
+  'juga', 'oleh', 'atau', 'ada', 'bisa', 'sudah', 'telah', 'saat', 'lebih', 'karena', 'agar', 'para', 'kata',
+]);
+
+const tokenize = (text: string | null): string[] =>
+  (text ?? '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(token));
+
+const termsOf = (article: Pick<Article, 'title' | 'summary'>): Map<string, number> => {
+  const terms = new Map<string, number>();
+  tokenize(article.title).forEach((token) => terms.set(token, (terms.get(token) ?? 0) + TITLE_BOOST));
+  tokenize(article.summary).forEach((token) => terms.set(token, (terms.get(token) ?? 0) + 1));
+  return terms;
+};
+
+// TF-IDF vectors normalized to unit length, so a dot product is the cosine similarity
+const vectorize = (documents: Map<string, number>[]): Map<string, number>[] => {
+  const documentFrequency = new Map<string, number>();
+  documents.forEach((terms) => terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+
+  return documents.map((terms) => {
+    const vector = new Map<string, number>();
+    let norm = 0;
+
+    terms.forEach((frequency, term) => {
+      const weight = frequency * (Math.log((documents.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1);
+      vector.set(term, weight);
+      norm += weight * weight;
+    });
+
+    norm = Math.sqrt(norm);
+    vector.forEach((weight, term) => vector.set(term, norm > 0 ? weight / norm : 0));
+    return vector;
+  });
+};
+
+const cosine = (a: Map<string, number>, b: Map<string, number>): number => {
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let sum = 0;
+  small.forEach((weight, term) => {
+    sum += weight * (large.get(term) ?? 0);
+  });
+  return sum;
+};
+
+export class RelatedService {
+  // Related articles in neighbor order; uses the cached neighbor list when there is one
+  static async getRelated(article: SourceArticle, limit: number): Promise<ArticleCard[]> {
+    const neighbors: RelatedNeighbor[] = (await CacheService.getRelated(article.id)) ?? (await this.refresh(article));
+
+    if (neighbors.length === 0) {
+      return [];
+    }
+
+    // Neighbors may have been unpublished or trashed since the list was built
+    const articles = await prisma.article.findMany({
+      where: { id: { in: neighbors.map((neighbor) => neighbor.id) }, published: true, ...notDeleted },
+      select: articleCardSelect,
+    });
+
+    return neighbors
+      .flatMap((neighbor) => articles.filter((item) => item.id === neighbor.id))
+      .slice(0, limit);
+  }
+
+  // Recompute and cache the neighbor list of an article
+  static async refresh(article: SourceArticle): Promise<RelatedNeighbor[]> {
+    const candidates = await prisma.article.findMany({
+      where: { id: { not: article.id }, language: article.language, published: true, ...notDeleted },
+      select: { id: true, title: true, summary: true, categoryId: true, tagIds: true },
+      orderBy: { publishedAt: 'desc' },
+      take: CANDIDATE_POOL,
+    });
+
+    const [source, ...vectors] = vectorize([article, ...candidates].map(termsOf));
+    const sourceTags = new Set(article.tagIds);
+
+    const neighbors = candidates
+      .map((candidate, index) => {
+        const shared = candidate.tagIds.filter((id) => sourceTags.has(id)).length;
+        const union = new Set([...article.tagIds, ...candidate.tagIds]).size;
+
+        const score =
+          SIGNAL_WEIGHTS.text * cosine(source, vectors[index]) +
+          SIGNAL_WEIGHTS.tags * (union > 0 ? shared / union : 0) +
+          (article.categoryId && candidate.categoryId === article.categoryId ? SIGNAL_WEIGHTS.category : 0);
+
+        return { id: candidate.id, score: Math.round(score * 1000) / 1000 };
+      })
+      .filter((neighbor) => neighbor.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_NEIGHBORS);
+
+    await CacheService.setRelated(article.id, neighbors);
+
+    logger.debug('Related articles computed', { articleId: article.id, candidates: candidates.length, neighbors: neighbors.length });
+    return neighbors;
+  }
+}
+
+export default RelatedService;
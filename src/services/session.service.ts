@@ -0,0 +1,233 @@
+import { Request } from 'express';
+import { Role, Session } from '@prisma/client';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { AppError } from '../utils/errorHandler';
+import { generateToken } from '../utils/jwt';
+import { generateSecureToken, hashToken } from '../utils/token';
+import { logger } from '../utils/logger';
+import { AuditService } from './audit.service';
+import { LoginSecurityService } from './login-security.service';
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  refreshExpiresAt: Date;
+  session: Session;
+}
+
+// Enough history to catch a stolen token replayed after a few rotations
+const MAX_PREVIOUS_TOKENS = 100;
+
+export class SessionService {
+  // Start a new session (token family) for a successful login
+  static async createSession(
+    user: { id: string; role: Role },
+    req: Request,
+    options: { rememberMe?: boolean } = {}
+  ): Promise<IssuedTokens> {
+    const refreshToken = generateSecureToken();
+    const lifetime = options.rememberMe ? env.REFRESH_TOKEN_REMEMBER_EXPIRES : env.REFRESH_TOKEN_EXPIRES;
+    const userAgent = req.get('User-Agent') || null;
+
+    // Compared against earlier sessions, so it has to run before this one is stored
+    const isNewDevice = await LoginSecurityService.isNewDevice(user.id, req.ip || null, userAgent);
+
+    const session = await prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: hashToken(refreshToken),
+        device: this.describeDevice(userAgent),
+        ip: req.ip || null,
+        userAgent,
+        expiresAt: new Date(Date.now() + lifetime),
+        revokedAt: null,
+      },
+    });
+
+    if (isNewDevice) {
+      LoginSecurityService.notifyNewDevice(user.id, session).catch((error) => {
+        logger.error('New device notification failed', { error, userId: user.id });
+      });
+    }
+
+    return {
+      accessToken: generateToken(user.id, user.role, session.id),
+      refreshToken,
+      refreshExpiresAt: session.expiresAt,
+      session,
+    };
+  }
+
+  // Exchange a refresh token for a new pair; a replayed token revokes the whole family
+  static async rotate(refreshToken: string, req: Request): Promise<IssuedTokens & { userId: string }> {
+    const tokenHash = hashToken(refreshToken);
+
+    const session = await prisma.session.findUnique({
+      where: { refreshTokenHash: tokenHash },
+      include: { user: { select: { id: true, role: true } } },
+    });
+
+    if (!session) {
+      await this.handlePossibleReuse(tokenHash, req);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    if (session.revokedAt || session.expiresAt < new Date()) {
+      throw new AppError('Session expired. Please log in again.', 401);
+    }
+
+    const nextToken = generateSecureToken();
+
+    // Conditional update so two concurrent refreshes cannot both rotate the same token
+    const rotated = await prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: tokenHash, revokedAt: null },
+      data: {
+        refreshTokenHash: hashToken(nextToken),
+        previousTokenHashes: [...session.previousTokenHashes, tokenHash].slice(-MAX_PREVIOUS_TOKENS),
+        lastUsedAt: new Date(),
+        ip: req.ip || session.ip,
+      },
+    });
+
+    if (rotated.count === 0) {
+      await this.handlePossibleReuse(tokenHash, req);
+      throw new AppError('Invalid refresh token', 401);
+    }
+
+    return {
+      accessToken: generateToken(session.user.id, session.user.role, session.id),
+      refreshToken: nextToken,
+      refreshExpiresAt: session.expiresAt,
+      session: { ...session, refreshTokenHash: hashToken(nextToken) },
+      userId: session.user.id,
+    };
+  }
+
+  // Active session check used by the auth middleware
+  static async isActive(sessionId: string): Promise<boolean> {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { revokedAt: true, expiresAt: true },
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  static async listActive(userId: string) {
+    return prisma.session.findMany({
+      where: {
+        userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        device: true,
+        ip: true,
+        userAgent: true,
+        lastUsedAt: true,
+        createdAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+  }
+
+  static async revoke(sessionId: string, reason: string, userId?: string): Promise<boolean> {
+    const result = await prisma.session.updateMany({
+      where: {
+        id: sessionId,
+        revokedAt: null,
+        ...(userId && { userId }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count > 0;
+  }
+
+  static async revokeByRefreshToken(refreshToken: string, reason: string): Promise<void> {
+    await prisma.session.updateMany({
+      where: { refreshTokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+  }
+
+  static async revokeAllForUser(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+      },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+
+    return result.count;
+  }
+
+  // Short label such as "Chrome on Windows" for the sessions list
+  static describeDevice(userAgent: string | null): string {
+    if (!userAgent) {
+      return 'Unknown device';
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Firefox\//, 'Firefox'],
+      [/Chrome\//, 'Chrome'],
+      [/Safari\//, 'Safari'],
+      [/curl\//, 'curl'],
+      [/PostmanRuntime/, 'Postman'],
+    ];
+    const systems: Array<[RegExp, string]> = [
+      [/Android/, 'Android'],
+      [/iPhone|iPad|iPod/, 'iOS'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+    if (browser && system) return `${browser} on ${system}`;
+    return browser || system || 'Unknown device';
+  }
+
+  private static async handlePossibleReuse(tokenHash: string, req: Request): Promise<void> {
+    const compromised = await prisma.session.findFirst({
+      where: { previousTokenHashes: { has: tokenHash } },
+      select: { id: true, userId: true, revokedAt: true },
+    });
+
+    if (!compromised) {
+      return;
+    }
+
+    if (!compromised.revokedAt) {
+      await this.revoke(compromised.id, 'refresh_token_reuse');
+    }
+
+    logger.warn('Refresh token reuse detected, session revoked', {
+      sessionId: compromised.id,
+      userId: compromised.userId,
+      ip: req.ip,
+    });
+
+    await AuditService.logSecurityEvent(
+      'refresh_token_reuse',
+      { sessionId: compromised.id },
+      req.ip || 'unknown',
+      compromised.userId
+    );
+  }
+}
+
+export default SessionService;
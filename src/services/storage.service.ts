@@ -0,0 +1,276 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  S3Client,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  HeadObjectCommand,
+  GetObjectCommand,
+  CopyObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { env } from '../config/env';
+import { uploadConfig } from '../config/upload';
+import { logger } from '../utils/logger';
+
+export interface StoredFileInfo {
+  exists: boolean;
+  size?: number;
+  mtime?: Date;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  mtime: Date;
+}
+
+// Keys are storage-relative paths such as "<userId>/photo_123.jpg"
+export interface StorageDriver {
+  readonly name: 'local' | 's3';
+  // Move a file multer wrote to local disk into the store under key
+  persist(key: string, localPath: string, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  stat(key: string): Promise<StoredFileInfo>;
+  // Every stored file under prefix ("" for the whole store)
+  list(prefix?: string): Promise<StoredObject[]>;
+  move(fromKey: string, toKey: string): Promise<void>;
+  getPublicUrl(key: string): string;
+  getSignedUrl(key: string, expiresInSeconds: number): Promise<string>;
+}
+
+const normalizeKey = (key: string): string => key.replace(/\\/g, '/').replace(/^\/+/, '');
+
+class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+  private root = path.join(process.cwd(), env.UPLOAD_DIR);
+
+  async persist(key: string, localPath: string): Promise<void> {
+    const target = this.resolve(key);
+    if (path.resolve(localPath) === target) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.rename(localPath, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.unlink(this.resolve(key)).catch((error: NodeJS.ErrnoException) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+
+  async stat(key: string): Promise<StoredFileInfo> {
+    try {
+      const stats = await fs.promises.stat(this.resolve(key));
+      return { exists: true, size: stats.size, mtime: stats.mtime };
+    } catch (error) {
+      return { exists: false };
+    }
+  }
+
+  async list(prefix: string = ''): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const start = prefix ? this.resolve(prefix) : this.root;
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          const stats = await fs.promises.stat(fullPath);
+          objects.push({
+            key: path.relative(this.root, fullPath).replace(/\\/g, '/'),
+            size: stats.size,
+            mtime: stats.mtime,
+          });
+        }
+      }
+    };
+
+    await walk(start);
+    return objects;
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const target = this.resolve(toKey);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.rename(this.resolve(fromKey), target);
+
+    // rename keeps the old mtime; reset it so a moved file ages like an S3 copy does
+    const now = new Date();
+    await fs.promises.utimes(target, now, now);
+  }
+
+  getPublicUrl(key: string): string {
+    const normalized = normalizeKey(key);
+    return uploadConfig.cdn.enabled
+      ? `${uploadConfig.cdn.baseUrl}/${normalized}`
+      : `/uploads/${normalized}`;
+  }
+
+  // Files under /uploads are served publicly, so there is nothing to sign
+  async getSignedUrl(key: string): Promise<string> {
+    return this.getPublicUrl(key);
+  }
+
+  // Keys must stay inside the upload root
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, normalizeKey(key));
+    if (!target.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return target;
+  }
+}
+
+class S3StorageDriver implements StorageDriver {
+  readonly name = 's3' as const;
+  private client: S3Client;
+  private bucket = env.S3_BUCKET;
+
+  constructor() {
+    this.client = new S3Client({
+      region: env.S3_REGION,
+      // Custom endpoint for MinIO / R2; path-style is what MinIO expects
+      ...(env.S3_ENDPOINT && { endpoint: env.S3_ENDPOINT }),
+      forcePathStyle: env.S3_FORCE_PATH_STYLE,
+      credentials: {
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+      },
+    });
+  }
+
+  async persist(key: string, localPath: string, contentType: string): Promise<void> {
+    const body = await fs.promises.readFile(localPath);
+
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: normalizeKey(key),
+        Body: body,
+        ContentType: contentType,
+        CacheControl: `public, max-age=${uploadConfig.cdn.cacheTtl}, immutable`,
+      })
+    );
+
+    await fs.promises.unlink(localPath).catch(() => undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: normalizeKey(key) }));
+  }
+
+  async stat(key: string): Promise<StoredFileInfo> {
+    try {
+      const head = await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: normalizeKey(key) })
+      );
+      return { exists: true, size: head.ContentLength, mtime: head.LastModified };
+    } catch (error) {
+      return { exists: false };
+    }
+  }
+
+  async list(prefix: string = ''): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix ? normalizeKey(prefix) : undefined,
+          ContinuationToken: continuationToken,
+        })
+      );
+
+      for (const object of page.Contents || []) {
+        if (object.Key) {
+          objects.push({
+            key: object.Key,
+            size: object.Size || 0,
+            mtime: object.LastModified || new Date(0),
+          });
+        }
+      }
+
+      continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  // S3 has no rename, so copy then delete the source
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const source = normalizeKey(fromKey);
+
+    await this.client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucket,
+        CopySource: `${this.bucket}/${source.split('/').map(encodeURIComponent).join('/')}`,
+        Key: normalizeKey(toKey),
+      })
+    );
+    await this.delete(source);
+  }
+
+  getPublicUrl(key: string): string {
+    const normalized = normalizeKey(key);
+
+    if (uploadConfig.cdn.enabled) {
+      return `${uploadConfig.cdn.baseUrl}/${normalized}`;
+    }
+
+    if (env.S3_PUBLIC_URL) {
+      return `${env.S3_PUBLIC_URL.replace(/\/$/, '')}/${normalized}`;
+    }
+
+    if (env.S3_ENDPOINT) {
+      return `${env.S3_ENDPOINT.replace(/\/$/, '')}/${this.bucket}/${normalized}`;
+    }
+
+    return `https://${this.bucket}.s3.${env.S3_REGION}.amazonaws.com/${normalized}`;
+  }
+
+  async getSignedUrl(key: string, expiresInSeconds: number): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: normalizeKey(key) }),
+      { expiresIn: expiresInSeconds }
+    );
+  }
+}
+
+let driver: StorageDriver | null = null;
+
+export const getStorage = (): StorageDriver => {
+  if (!driver) {
+    switch (uploadConfig.storage.type) {
+      case 's3':
+        driver = new S3StorageDriver();
+        break;
+      case 'local':
+        driver = new LocalStorageDriver();
+        break;
+      default:
+        logger.warn('Unsupported storage driver, falling back to local disk', {
+          driver: uploadConfig.storage.type,
+        });
+        driver = new LocalStorageDriver();
+    }
+
+    logger.info('Upload storage initialized', { driver: driver.name });
+  }
+
+  return driver;
+};
@@ -0,0 +1,254 @@
+import { FollowTarget } from '@prisma/client';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { CacheService } from './cache.service';
+import { FollowService } from './follow.service';
+import { AppError } from '../utils/errorHandler';
+import { onlyDeleted, restoreData } from '../utils/softDelete';
+import { withLock } from '../utils/lock';
+import { logger } from '../utils/logger';
+
+export const TRASH_TYPES = ['article', 'comment', 'user'] as const;
+export type TrashType = (typeof TRASH_TYPES)[number];
+
+export interface TrashItem {
+  id: string;
+  type: TrashType;
+  label: string;
+  deletedAt: Date;
+  deletedBy: { id: string; name: string } | null;
+  purgeAt: Date;
+}
+
+const PURGE_BATCH_SIZE = 100;
+const DAY = 24 * 60 * 60 * 1000;
+
+export class TrashService {
+  static isTrashType(value: unknown): value is TrashType {
+    return typeof value === 'string' && (TRASH_TYPES as readonly string[]).includes(value);
+  }
+
+  static async list(type: TrashType, page: number, limit: number): Promise<{ items: TrashItem[]; total: number }> {
+    const skip = (page - 1) * limit;
+    const orderBy = { deletedAt: 'desc' as const };
+
+    let rows: Array<{ id: string; label: string; deletedAt: Date | null; deletedBy: string | null }>;
+    let total: number;
+
+    if (type === 'article') {
+      const [articles, count] = await Promise.all([
+        prisma.article.findMany({
+          where: onlyDeleted,
+          select: { id: true, title: true, deletedAt: true, deletedBy: true },
+          orderBy,
+          skip,
+          take: limit,
+        }),
+        prisma.article.count({ where: onlyDeleted }),
+      ]);
+      rows = articles.map((article) => ({ ...article, label: article.title }));
+      total = count;
+    } else if (type === 'comment') {
+      const [comments, count] = await Promise.all([
+        prisma.comment.findMany({
+          where: onlyDeleted,
+          select: { id: true, content: true, deletedAt: true, deletedBy: true },
+          orderBy,
+          skip,
+          take: limit,
+        }),
+        prisma.comment.count({ where: onlyDeleted }),
+      ]);
+      rows = comments.map((comment) => ({ ...comment, label: comment.content.substring(0, 100) }));
+      total = count;
+    } else {
+      const [users, count] = await Promise.all([
+        prisma.user.findMany({
+          where: onlyDeleted,
+          select: { id: true, name: true, email: true, deletedAt: true, deletedBy: true },
+          orderBy,
+          skip,
+          take: limit,
+        }),
+        prisma.user.count({ where: onlyDeleted }),
+      ]);
+      rows = users.map((user) => ({ ...user, label: `${user.name} <${user.email}>` }));
+      total = count;
+    }
+
+    // deletedBy is a plain id so that purging the deleter does not touch the trash
+    const deleterIds = [...new Set(rows.map((row) => row.deletedBy).filter((id): id is string => !!id))];
+    const deleters = deleterIds.length
+      ? await prisma.user.findMany({ where: { id: { in: deleterIds } }, select: { id: true, name: true } })
+      : [];
+
+    const items = rows.map((row) => {
+      const deletedAt = row.deletedAt ?? new Date();
+      return {
+        id: row.id,
+        type,
+        label: row.label,
+        deletedAt,
+        deletedBy: deleters.find((deleter) => deleter.id === row.deletedBy) ?? null,
+        purgeAt: new Date(deletedAt.getTime() + env.TRASH_RETENTION_DAYS * DAY),
+      };
+    });
+
+    return { items, total };
+  }
+
+  static async restore(type: TrashType, id: string): Promise<void> {
+    if (type === 'article') {
+      const article = await prisma.article.findFirst({
+        where: { id, ...onlyDeleted },
+        select: { slug: true, published: true },
+      });
+
+      if (!article) {
+        throw new AppError('Article not found in trash', 404);
+      }
+
+      await prisma.article.update({ where: { id }, data: restoreData });
+
+      if (article.published) {
+        await CacheService.invalidateContent();
+        await CacheService.invalidateArticle(article.slug);
+      }
+    } else if (type === 'comment') {
+      const { count } = await prisma.comment.updateMany({ where: { id, ...onlyDeleted }, data: restoreData });
+
+      if (count === 0) {
+        throw new AppError('Comment not found in trash', 404);
+      }
+    } else {
+      const { count } = await prisma.user.updateMany({ where: { id, ...onlyDeleted }, data: restoreData });
+
+      if (count === 0) {
+        throw new AppError('User not found in trash', 404);
+      }
+    }
+
+    logger.info('Trash item restored', { type, id });
+  }
+
+  // Permanent delete; only items already in the trash can be purged
+  static async purge(type: TrashType, id: string): Promise<void> {
+    if (type === 'article') {
+      const article = await prisma.article.findFirst({ where: { id, ...onlyDeleted }, select: { id: true } });
+
+      if (!article) {
+        throw new AppError('Article not found in trash', 404);
+      }
+
+      const comments = await prisma.comment.findMany({ where: { articleId: id }, select: { id: true } });
+      await this.deleteCommentTrees(comments.map((comment) => comment.id));
+      await prisma.article.delete({ where: { id } });
+    } else if (type === 'comment') {
+      const comment = await prisma.comment.findFirst({ where: { id, ...onlyDeleted }, select: { id: true } });
+
+      if (!comment) {
+        throw new AppError('Comment not found in trash', 404);
+      }
+
+      await this.deleteCommentTrees([id]);
+    } else {
+      const user = await prisma.user.findFirst({ where: { id, ...onlyDeleted }, select: { id: true } });
+
+      if (!user) {
+        throw new AppError('User not found in trash', 404);
+      }
+
+      // Other readers' replies to this user's comments go with them; articles keep existing without an author
+      const comments = await prisma.comment.findMany({ where: { userId: id }, select: { id: true } });
+      await this.deleteCommentTrees(comments.map((comment) => comment.id));
+      await FollowService.removeTarget(FollowTarget.AUTHOR, id);
+      await prisma.user.delete({ where: { id } });
+    }
+
+    logger.info('Trash item purged', { type, id });
+  }
+
+  // Purge everything that has been in the trash longer than the retention period
+  static async purgeExpired(now: Date = new Date()): Promise<Record<TrashType, number>> {
+    const cutoff = new Date(now.getTime() - env.TRASH_RETENTION_DAYS * DAY);
+    const where = { deletedAt: { lt: cutoff } };
+    const purged: Record<TrashType, number> = { article: 0, comment: 0, user: 0 };
+
+    // Articles first so their comments are not purged one by one
+    const finders: Record<TrashType, () => Promise<Array<{ id: string }>>> = {
+      article: () => prisma.article.findMany({ where, select: { id: true }, take: PURGE_BATCH_SIZE }),
+      comment: () => prisma.comment.findMany({ where, select: { id: true }, take: PURGE_BATCH_SIZE }),
+      user: () => prisma.user.findMany({ where, select: { id: true }, take: PURGE_BATCH_SIZE }),
+    };
+
+    for (const type of TRASH_TYPES) {
+      const failed = new Set<string>();
+
+      while (true) {
+        const batch = (await finders[type]()).filter((item) => !failed.has(item.id));
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        for (const { id } of batch) {
+          try {
+            await this.purge(type, id);
+            purged[type]++;
+          } catch (error) {
+            // Skip it for the rest of this run; the next run tries again
+            failed.add(id);
+            logger.error('Trash purge failed', {
+              type,
+              id,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
+      }
+    }
+
+    if (purged.article + purged.comment + purged.user > 0) {
+      logger.info('Expired trash purged', { ...purged, retentionDays: env.TRASH_RETENTION_DAYS });
+    }
+
+    return purged;
+  }
+
+  // Replies reference their parent without a cascade, so delete the deepest level first
+  private static async deleteCommentTrees(rootIds: string[]): Promise<void> {
+    const levels: string[][] = [rootIds];
+
+    while (levels[levels.length - 1].length > 0) {
+      const children = await prisma.comment.findMany({
+        where: { parentId: { in: levels[levels.length - 1] } },
+        select: { id: true },
+      });
+      levels.push(children.map((child) => child.id));
+    }
+
+    for (const ids of levels.reverse()) {
+      if (ids.length > 0) {
+        await prisma.comment.deleteMany({ where: { id: { in: ids } } });
+      }
+    }
+  }
+}
+
+// Daily retention sweep, started after the database connects
+export const startTrashPurgeJob = () => {
+  const sweep = async () => {
+    try {
+      await withLock('trash-purge', 60 * 60 * 1000, () => TrashService.purgeExpired());
+    } catch (error) {
+      logger.error('Trash purge error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  setTimeout(sweep, 5 * 60 * 1000);
+  setInterval(sweep, env.TRASH_PURGE_INTERVAL);
+};
+
+export default TrashService;
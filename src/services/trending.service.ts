@@ -0,0 +1,444 @@
+import { ArticleStatsSnapshot, Language, Prisma } from '@prisma/client';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { TrendDirection, TrendingData } from '../types/api.types';
+import { articleCardSelect } from '../utils/articleSelect';
+import { deleteCachedPattern, getCachedData, setCachedData } from '../utils/cache';
+import { notDeleted } from '../utils/softDelete';
+import { withLock } from '../utils/lock';
+import { logger } from '../utils/logger';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+// Articles older than this are no longer candidates
+const MAX_AGE = WEEK;
+// Long enough to diff the week window and the day before yesterday
+const SNAPSHOT_RETENTION = WEEK + 2 * DAY;
+
+// Engagement per event; deliberate actions count more than a page view
+const WEIGHTS = { views: 1, likes: 3, comments: 4, bookmarks: 4, shares: 5 };
+// The last day dominates, the rest of the week keeps steady performers around
+const WINDOW_WEIGHTS = { day: 1, week: 0.25 };
+
+// A category, tag or author is moving up or down only past both thresholds
+const TREND_RATIO = 0.2;
+const TREND_MIN_DELTA = 5;
+const TRENDS_LIMIT = 10;
+const UPDATE_CHUNK_SIZE = 25;
+
+const TRENDS_CACHE_KEY = (language: Language) => `trends:${language}`;
+
+type Counts = Record<string, [number, number]>;
+
+interface Candidate {
+  id: string;
+  language: Language;
+  viewCount: number;
+  shareCount: number;
+  publishedAt: Date;
+  authorId: string | null;
+  categoryId: string | null;
+  tagIds: string[];
+}
+
+interface Window {
+  from: Date;
+  to: Date;
+}
+
+interface Engagement {
+  views: number;
+  likes: number;
+  comments: number;
+  bookmarks: number;
+  shares: number;
+}
+
+interface ScoredCandidate extends Candidate {
+  score: number;
+  day: number;
+  previousDay: number;
+  week: number;
+  weekViews: number;
+}
+
+export interface TrendReport extends Omit<TrendingData, 'articles'> {
+  language: Language;
+  computedAt: string;
+}
+
+export interface TrendingRunResult {
+  candidates: number;
+  trending: Partial<Record<Language, number>>;
+}
+
+const engagementScore = (engagement: Engagement): number =>
+  engagement.views * WEIGHTS.views +
+  engagement.likes * WEIGHTS.likes +
+  engagement.comments * WEIGHTS.comments +
+  engagement.bookmarks * WEIGHTS.bookmarks +
+  engagement.shares * WEIGHTS.shares;
+
+const direction = (current: number, previous: number): TrendDirection => {
+  if (current - previous >= TREND_MIN_DELTA && current > previous * (1 + TREND_RATIO)) {
+    return 'up';
+  }
+  if (previous - current >= TREND_MIN_DELTA && current < previous * (1 - TREND_RATIO)) {
+    return 'down';
+  }
+  return 'stable';
+};
+
+export class TrendingService {
+  // Score recent articles, refresh the trending set of every language and cache the trend reports
+  static async refresh(now: Date = new Date()): Promise<TrendingRunResult> {
+    await this.pinManualPicks();
+
+    const candidates: Candidate[] = await prisma.article.findMany({
+      where: { published: true, ...notDeleted, publishedAt: { gte: new Date(now.getTime() - MAX_AGE), lte: now } },
+      select: {
+        id: true,
+        language: true,
+        viewCount: true,
+        shareCount: true,
+        publishedAt: true,
+        authorId: true,
+        categoryId: true,
+        tagIds: true,
+      },
+    });
+
+    const scored = await this.score(candidates, now);
+    const result: TrendingRunResult = { candidates: candidates.length, trending: {} };
+
+    for (const language of Object.values(Language)) {
+      const inLanguage = scored.filter((article) => article.language === language);
+      result.trending[language] = await this.applyTrendingSet(language, inLanguage, now);
+      await setCachedData(
+        TRENDS_CACHE_KEY(language),
+        await this.buildReport(language, inLanguage, now),
+        Math.ceil((env.TRENDING_INTERVAL * 3) / 1000)
+      );
+    }
+
+    await prisma.articleStatsSnapshot.create({
+      data: {
+        takenAt: now,
+        counts: Object.fromEntries(candidates.map((article) => [article.id, [article.viewCount, article.shareCount]])),
+      },
+    });
+    await prisma.articleStatsSnapshot.deleteMany({
+      where: { takenAt: { lt: new Date(now.getTime() - SNAPSHOT_RETENTION) } },
+    });
+
+    await deleteCachedPattern('trending:*');
+
+    logger.info('Trending refreshed', result);
+    return result;
+  }
+
+  // Trending flags set by hand before the job existed carry no trendingPinned; keep them as pins.
+  // The job marks its own picks trendingPinned: false, so only those manual picks match.
+  private static async pinManualPicks(): Promise<void> {
+    const { count } = await prisma.article.updateMany({
+      where: { isTrending: true, trendingPinned: { isSet: false } },
+      data: { trendingPinned: true },
+    });
+
+    if (count > 0) {
+      logger.info('Existing trending articles pinned', { count });
+    }
+  }
+
+  // Articles, categories, tags and authors trending in a language
+  static async getTrending(language: Language, limit: number): Promise<TrendingData & { computedAt: string | null }> {
+    const [articles, report] = await Promise.all([
+      prisma.article.findMany({
+        where: { isTrending: true, published: true, ...notDeleted, language },
+        select: { ...articleCardSelect, trendingScore: true, trendingPinned: true },
+        orderBy: [{ trendingPinned: 'desc' }, { trendingScore: 'desc' }, { publishedAt: 'desc' }],
+        take: limit,
+      }),
+      this.getReport(language),
+    ]);
+
+    return {
+      articles,
+      categories: report.categories,
+      tags: report.tags,
+      authors: report.authors,
+      computedAt: report.computedAt,
+    };
+  }
+
+  // Cached report of the last run; computed on the spot (without touching the trending set) when missing
+  private static async getReport(language: Language): Promise<TrendReport> {
+    const cached = await getCachedData(TRENDS_CACHE_KEY(language));
+    if (cached) {
+      return cached;
+    }
+
+    const now = new Date();
+    const candidates = await prisma.article.findMany({
+      where: {
+        published: true,
+        ...notDeleted,
+        language,
+        publishedAt: { gte: new Date(now.getTime() - MAX_AGE), lte: now },
+      },
+      select: {
+        id: true,
+        language: true,
+        viewCount: true,
+        shareCount: true,
+        publishedAt: true,
+        authorId: true,
+        categoryId: true,
+        tagIds: true,
+      },
+    });
+
+    const report = await this.buildReport(language, await this.score(candidates, now), now);
+    await setCachedData(TRENDS_CACHE_KEY(language), report, Math.ceil(env.TRENDING_INTERVAL / 1000));
+    return report;
+  }
+
+  private static async score(candidates: Candidate[], now: Date): Promise<ScoredCandidate[]> {
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const ids = candidates.map((article) => article.id);
+    const windows = {
+      day: { from: new Date(now.getTime() - DAY), to: now },
+      week: { from: new Date(now.getTime() - WEEK), to: now },
+      previousDay: { from: new Date(now.getTime() - 2 * DAY), to: new Date(now.getTime() - DAY) },
+    };
+
+    const [snapshots, day, week, previousDay] = await Promise.all([
+      this.loadSnapshots([windows.day.from, windows.week.from, windows.previousDay.from]),
+      this.countEvents(ids, windows.day),
+      this.countEvents(ids, windows.week),
+      this.countEvents(ids, windows.previousDay),
+    ]);
+
+    // Value of a counter at a point in time; null when no snapshot can tell
+    const counterAt = (article: Candidate, index: 0 | 1, at: Date): number | null => {
+      if (at.getTime() >= now.getTime()) {
+        return index === 0 ? article.viewCount : article.shareCount;
+      }
+      if (article.publishedAt.getTime() >= at.getTime()) {
+        return 0;
+      }
+      return snapshots.at(at)?.[article.id]?.[index] ?? null;
+    };
+
+    // Until enough snapshots exist, views and shares only count for articles published inside the window
+    const counterIn = (article: Candidate, index: 0 | 1, window: Window): number => {
+      const start = counterAt(article, index, window.from);
+      const end = counterAt(article, index, window.to);
+      return start === null || end === null ? 0 : Math.max(0, end - start);
+    };
+
+    const engagementIn = (article: Candidate, window: Window, events: Map<string, Omit<Engagement, 'views' | 'shares'>>) => {
+      const counted = events.get(article.id);
+      return engagementScore({
+        views: counterIn(article, 0, window),
+        shares: counterIn(article, 1, window),
+        likes: counted?.likes ?? 0,
+        comments: counted?.comments ?? 0,
+        bookmarks: counted?.bookmarks ?? 0,
+      });
+    };
+
+    return candidates.map((article) => {
+      const dayScore = engagementIn(article, windows.day, day);
+      const weekScore = engagementIn(article, windows.week, week);
+      const ageHours = Math.max(0, now.getTime() - article.publishedAt.getTime()) / HOUR;
+      const decay = Math.pow(0.5, ageHours / env.TRENDING_HALF_LIFE_HOURS);
+
+      return {
+        ...article,
+        score: (dayScore * WINDOW_WEIGHTS.day + weekScore * WINDOW_WEIGHTS.week) * decay,
+        day: dayScore,
+        previousDay: engagementIn(article, windows.previousDay, previousDay),
+        week: weekScore,
+        weekViews: counterIn(article, 0, windows.week),
+      };
+    });
+  }
+
+  // For each point in time, the newest snapshot taken at or before it (or the oldest one as a fallback)
+  private static async loadSnapshots(points: Date[]): Promise<{ at: (point: Date) => Counts | null }> {
+    const found = await Promise.all(
+      points.map(async (point) => {
+        const snapshot =
+          (await prisma.articleStatsSnapshot.findFirst({
+            where: { takenAt: { lte: point } },
+            orderBy: { takenAt: 'desc' },
+          })) ??
+          (await prisma.articleStatsSnapshot.findFirst({ orderBy: { takenAt: 'asc' } }));
+        return [point.getTime(), snapshot] as [number, ArticleStatsSnapshot | null];
+      })
+    );
+
+    const byPoint = new Map(found);
+    return {
+      at: (point: Date) => (byPoint.get(point.getTime())?.counts as Counts | undefined) ?? null,
+    };
+  }
+
+  // Likes, comments and bookmarks carry their own timestamps
+  private static async countEvents(ids: string[], window: Window) {
+    const createdAt = { gte: window.from, lt: window.to };
+
+    const [likes, comments, bookmarks] = await Promise.all([
+      prisma.like.groupBy({ by: ['articleId'], where: { articleId: { in: ids }, createdAt }, _count: { _all: true } }),
+      prisma.comment.groupBy({
+        by: ['articleId'],
+        where: { articleId: { in: ids }, createdAt, ...notDeleted },
+        _count: { _all: true },
+      }),
+      prisma.bookmark.groupBy({ by: ['articleId'], where: { articleId: { in: ids }, createdAt }, _count: { _all: true } }),
+    ]);
+
+    const events = new Map<string, Omit<Engagement, 'views' | 'shares'>>();
+    const add = (rows: Array<{ articleId: string; _count: { _all: number } }>, key: 'likes' | 'comments' | 'bookmarks') => {
+      rows.forEach((row) => {
+        const entry = events.get(row.articleId) ?? { likes: 0, comments: 0, bookmarks: 0 };
+        entry[key] = row._count._all;
+        events.set(row.articleId, entry);
+      });
+    };
+
+    add(likes, 'likes');
+    add(comments, 'comments');
+    add(bookmarks, 'bookmarks');
+
+    return events;
+  }
+
+  // Top scorers become trending; everything else drops out unless an admin pinned it
+  private static async applyTrendingSet(language: Language, scored: ScoredCandidate[], now: Date): Promise<number> {
+    const top = scored
+      .filter((article) => article.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, env.TRENDING_SIZE);
+    const topIds = top.map((article) => article.id);
+
+    await prisma.article.updateMany({
+      where: { id: { in: topIds }, isTrending: false },
+      data: { isTrending: true, trendingPinned: false },
+    });
+    await prisma.article.updateMany({
+      where: { language, isTrending: true, id: { notIn: topIds }, trendingPinned: { not: true } },
+      data: { isTrending: false },
+    });
+
+    for (let i = 0; i < scored.length; i += UPDATE_CHUNK_SIZE) {
+      await Promise.all(
+        scored.slice(i, i + UPDATE_CHUNK_SIZE).map((article) =>
+          prisma.article.update({
+            where: { id: article.id },
+            data: { trendingScore: Math.round(article.score * 1000) / 1000 },
+          })
+        )
+      );
+    }
+
+    // Articles that aged out keep no stale score
+    await prisma.article.updateMany({
+      where: { language, publishedAt: { lt: new Date(now.getTime() - MAX_AGE) }, trendingScore: { gt: 0 } },
+      data: { trendingScore: 0 },
+    });
+
+    return topIds.length;
+  }
+
+  private static async buildReport(language: Language, scored: ScoredCandidate[], now: Date): Promise<TrendReport> {
+    const group = (keysOf: (article: ScoredCandidate) => string[]) => {
+      const groups = new Map<string, { articles: number; day: number; previousDay: number; week: number; weekViews: number }>();
+
+      scored.forEach((article) => {
+        keysOf(article).forEach((key) => {
+          const entry = groups.get(key) ?? { articles: 0, day: 0, previousDay: 0, week: 0, weekViews: 0 };
+          entry.articles++;
+          entry.day += article.day;
+          entry.previousDay += article.previousDay;
+          entry.week += article.week;
+          entry.weekViews += article.weekViews;
+          groups.set(key, entry);
+        });
+      });
+
+      return [...groups.entries()];
+    };
+
+    const byDay = <T extends [string, { day: number; articles: number }]>(a: T, b: T) =>
+      b[1].day - a[1].day || b[1].articles - a[1].articles;
+
+    const categoryGroups = group((article) => (article.categoryId ? [article.categoryId] : [])).sort(byDay).slice(0, TRENDS_LIMIT);
+    const tagGroups = group((article) => article.tagIds).sort(byDay).slice(0, TRENDS_LIMIT);
+    const authorGroups = group((article) => (article.authorId ? [article.authorId] : []))
+      .sort((a, b) => b[1].week - a[1].week)
+      .slice(0, TRENDS_LIMIT);
+
+    const [categories, tags, authors] = await Promise.all([
+      prisma.category.findMany({
+        where: { id: { in: categoryGroups.map(([id]) => id) } },
+        select: { id: true, name: true, slug: true },
+      }),
+      prisma.tag.findMany({
+        where: { id: { in: tagGroups.map(([id]) => id) } },
+        select: { id: true, name: true, slug: true },
+      }),
+      prisma.user.findMany({
+        where: { id: { in: authorGroups.map(([id]) => id) }, ...notDeleted },
+        select: { id: true, name: true, username: true },
+      }),
+    ]);
+
+    return {
+      language,
+      computedAt: now.toISOString(),
+      categories: categoryGroups.flatMap(([id, stats]) => {
+        const category = categories.find((item) => item.id === id);
+        return category
+          ? [{ name: category.name, slug: category.slug, articleCount: stats.articles, trend: direction(stats.day, stats.previousDay) }]
+          : [];
+      }),
+      tags: tagGroups.flatMap(([id, stats]) => {
+        const tag = tags.find((item) => item.id === id);
+        return tag
+          ? [{ name: tag.name, slug: tag.slug, usage: stats.articles, trend: direction(stats.day, stats.previousDay) }]
+          : [];
+      }),
+      authors: authorGroups.flatMap(([id, stats]) => {
+        const author = authors.find((item) => item.id === id);
+        return author
+          ? [{ name: author.name, username: author.username, articleCount: stats.articles, totalViews: stats.weekViews }]
+          : [];
+      }),
+    };
+  }
+}
+
+// Periodic recompute, started after the database connects
+export const startTrendingJob = () => {
+  const run = async () => {
+    try {
+      await withLock('trending', 10 * 60 * 1000, () => TrendingService.refresh());
+    } catch (error) {
+      logger.error('Trending job error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  run();
+  setInterval(run, env.TRENDING_INTERVAL);
+};
+
+export default TrendingService;
@@ -0,0 +1,179 @@
+import crypto from 'crypto';
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { AppError } from '../utils/errorHandler';
+import { hashToken } from '../utils/token';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpAuthUri,
+  encryptSecret,
+  decryptSecret,
+} from '../utils/totp';
+import { logger } from '../utils/logger';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+}
+
+export class TwoFactorService {
+  static async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const record = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+    return {
+      enabled: !!record?.enabledAt,
+      enabledAt: record?.enabledAt || null,
+      recoveryCodesRemaining: record?.enabledAt ? record.recoveryCodes.length : 0,
+    };
+  }
+
+  static async isEnabled(userId: string): Promise<boolean> {
+    const record = await prisma.twoFactorAuth.findUnique({
+      where: { userId },
+      select: { enabledAt: true },
+    });
+    return !!record?.enabledAt;
+  }
+
+  // Start (or restart) enrollment; the secret is not active until confirmEnrollment
+  static async beginEnrollment(user: { id: string; email: string }): Promise<{ secret: string; otpauthUrl: string }> {
+    if (await this.isEnabled(user.id)) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    const secret = generateTotpSecret();
+    const data = {
+      secret: encryptSecret(secret),
+      enabledAt: null,
+      recoveryCodes: [],
+      lastUsedStep: null,
+    };
+
+    await prisma.twoFactorAuth.upsert({
+      where: { userId: user.id },
+      create: { userId: user.id, ...data },
+      update: data,
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUri(secret, user.email, env.TWO_FACTOR_ISSUER),
+    };
+  }
+
+  // Activate 2FA once the user proves their app generates valid codes; returns plain recovery codes once
+  static async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const record = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+    if (!record) {
+      throw new AppError('Start two-factor setup first', 400);
+    }
+
+    if (record.enabledAt) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    const step = verifyTotp(decryptSecret(record.secret), code);
+    if (step === null) {
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await prisma.twoFactorAuth.update({
+      where: { userId },
+      data: {
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)),
+      },
+    });
+
+    return recoveryCodes;
+  }
+
+  // Accepts a TOTP code or a recovery code; each can only be used once
+  static async verify(userId: string, code: string): Promise<{ method: 'totp' | 'recovery' }> {
+    const record = await prisma.twoFactorAuth.findUnique({ where: { userId } });
+
+    if (!record?.enabledAt) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+
+    if (/^\d{6}$/.test(normalized)) {
+      const step = verifyTotp(decryptSecret(record.secret), normalized);
+
+      if (step !== null) {
+        // Conditional update so the same code cannot be accepted twice
+        const accepted = await prisma.twoFactorAuth.updateMany({
+          where: {
+            id: record.id,
+            OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+          },
+          data: { lastUsedStep: step },
+        });
+
+        if (accepted.count > 0) {
+          return { method: 'totp' };
+        }
+      }
+    } else {
+      const codeHash = this.hashRecoveryCode(normalized);
+
+      if (record.recoveryCodes.includes(codeHash)) {
+        const consumed = await prisma.twoFactorAuth.updateMany({
+          where: { id: record.id, recoveryCodes: { has: codeHash } },
+          data: { recoveryCodes: record.recoveryCodes.filter((hash) => hash !== codeHash) },
+        });
+
+        if (consumed.count > 0) {
+          logger.info('Recovery code used', {
+            userId,
+            remaining: record.recoveryCodes.length - 1,
+          });
+          return { method: 'recovery' };
+        }
+      }
+    }
+
+    throw new AppError('Invalid two-factor code', 401);
+  }
+
+  static async regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+    await this.verify(userId, code);
+
+    const recoveryCodes = this.generateRecoveryCodes();
+
+    await prisma.twoFactorAuth.update({
+      where: { userId },
+      data: { recoveryCodes: recoveryCodes.map((recoveryCode) => this.hashRecoveryCode(recoveryCode)) },
+    });
+
+    return recoveryCodes;
+  }
+
+  static async disable(userId: string, code: string): Promise<void> {
+    await this.verify(userId, code);
+    await prisma.twoFactorAuth.delete({ where: { userId } });
+  }
+
+  // Formatted as xxxxx-xxxxx for readability; stored without the dash
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+
+  private static hashRecoveryCode(code: string): string {
+    return hashToken(code.replace(/[\s-]/g, '').toLowerCase());
+  }
+}
+
+export default TwoFactorService;
@@ -0,0 +1,303 @@
+import { prisma } from '../config/db';
+import { env } from '../config/env';
+import { uploadConfig } from '../config/upload';
+import { getStorage, StoredObject } from './storage.service';
+import { ImageVariants } from './image.service';
+import { AppError } from '../utils/errorHandler';
+import { getCachedData, setCachedData } from '../utils/cache';
+import { withLock } from '../utils/lock';
+import { logger } from '../utils/logger';
+
+export interface UploadCleanupReport {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  dryRun: boolean;
+  driver: string;
+  scanned: number;
+  tempFiles: { deleted: number; bytes: number };
+  quarantined: { files: number; bytes: number; media: number };
+  restored: { files: number; media: number };
+  purged: { files: number; bytes: number; media: number };
+  errors: string[];
+}
+
+const REPORT_CACHE_KEY = 'uploads:cleanup:last';
+const REPORT_TTL = 30 * 24 * 60 * 60; // 30 days
+const MAX_REPORTED_ERRORS = 20;
+const CONTENT_BATCH_SIZE = 200;
+
+const tempPrefix = `${uploadConfig.paths.temp}/`;
+const quarantinePrefix = `${uploadConfig.security.quarantineDir}/`;
+
+let running = false;
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+export class UploadCleanupService {
+  // One sweep: expired temp files, then the quarantine, then newly orphaned uploads
+  static async run(options: { dryRun?: boolean } = {}): Promise<UploadCleanupReport> {
+    if (running) {
+      throw new AppError('Upload cleanup is already running', 409);
+    }
+
+    running = true;
+    const startedAt = new Date();
+    const storage = getStorage();
+    const report: UploadCleanupReport = {
+      startedAt: startedAt.toISOString(),
+      finishedAt: startedAt.toISOString(),
+      durationMs: 0,
+      dryRun: !!options.dryRun,
+      driver: storage.name,
+      scanned: 0,
+      tempFiles: { deleted: 0, bytes: 0 },
+      quarantined: { files: 0, bytes: 0, media: 0 },
+      restored: { files: 0, media: 0 },
+      purged: { files: 0, bytes: 0, media: 0 },
+      errors: [],
+    };
+
+    try {
+      const objects = await storage.list();
+      const referenced = await this.getReferencedKeys();
+      const now = startedAt.getTime();
+      report.scanned = objects.length;
+
+      for (const object of objects) {
+        try {
+          if (object.key.startsWith(tempPrefix)) {
+            await this.sweepTempFile(object, now, report);
+          } else if (object.key.startsWith(quarantinePrefix)) {
+            await this.sweepQuarantinedFile(object, referenced, now, report);
+          } else if (!referenced.has(object.key)) {
+            await this.quarantine(object, now, report);
+          }
+        } catch (error) {
+          this.recordError(report, object.key, error);
+        }
+      }
+
+      report.finishedAt = new Date().toISOString();
+      report.durationMs = Date.now() - startedAt.getTime();
+
+      if (!report.dryRun) {
+        await setCachedData(REPORT_CACHE_KEY, report, REPORT_TTL);
+      }
+
+      logger.info('Upload cleanup completed', {
+        dryRun: report.dryRun,
+        scanned: report.scanned,
+        tempFiles: report.tempFiles.deleted,
+        quarantined: report.quarantined.files,
+        restored: report.restored.files,
+        purged: report.purged.files,
+        errors: report.errors.length,
+      });
+
+      return report;
+    } finally {
+      running = false;
+    }
+  }
+
+  static async getLastReport(): Promise<UploadCleanupReport | null> {
+    return getCachedData(REPORT_CACHE_KEY);
+  }
+
+  // What is waiting in quarantine right now
+  static async getQuarantineSummary(): Promise<{ files: number; bytes: number; media: number }> {
+    const [objects, media] = await Promise.all([
+      getStorage().list(uploadConfig.security.quarantineDir),
+      prisma.media.count({ where: { quarantinedAt: { not: null } } }),
+    ]);
+
+    return {
+      files: objects.length,
+      bytes: objects.reduce((total, object) => total + object.size, 0),
+      media,
+    };
+  }
+
+  private static async sweepTempFile(object: StoredObject, now: number, report: UploadCleanupReport): Promise<void> {
+    if (now - object.mtime.getTime() < uploadConfig.storage.cleanup.tempFiles) {
+      return;
+    }
+
+    if (!report.dryRun) {
+      await getStorage().delete(object.key);
+    }
+
+    report.tempFiles.deleted++;
+    report.tempFiles.bytes += object.size;
+  }
+
+  // Unreferenced uploads get the temp-file window as grace so drafts can pick them up first
+  private static async quarantine(object: StoredObject, now: number, report: UploadCleanupReport): Promise<void> {
+    if (now - object.mtime.getTime() < uploadConfig.storage.cleanup.tempFiles) {
+      return;
+    }
+
+    if (!report.dryRun) {
+      await getStorage().move(object.key, `${quarantinePrefix}${object.key}`);
+      const { count } = await prisma.media.updateMany({
+        where: { path: object.key },
+        data: { quarantinedAt: new Date(now) },
+      });
+      report.quarantined.media += count;
+    }
+
+    report.quarantined.files++;
+    report.quarantined.bytes += object.size;
+
+    logger.info('Upload quarantined', { key: object.key, dryRun: report.dryRun });
+  }
+
+  // Files referenced again while quarantined go back; the rest are deleted once retention runs out
+  private static async sweepQuarantinedFile(
+    object: StoredObject,
+    referenced: Set<string>,
+    now: number,
+    report: UploadCleanupReport
+  ): Promise<void> {
+    const originalKey = object.key.slice(quarantinePrefix.length);
+
+    if (referenced.has(originalKey)) {
+      if (!report.dryRun) {
+        await getStorage().move(object.key, originalKey);
+        const { count } = await prisma.media.updateMany({
+          where: { path: originalKey },
+          data: { quarantinedAt: null },
+        });
+        report.restored.media += count;
+      }
+
+      report.restored.files++;
+      logger.info('Quarantined upload restored', { key: originalKey, dryRun: report.dryRun });
+      return;
+    }
+
+    if (now - object.mtime.getTime() < uploadConfig.storage.cleanup.orphanedFiles) {
+      return;
+    }
+
+    if (!report.dryRun) {
+      await getStorage().delete(object.key);
+      const { count } = await prisma.media.deleteMany({ where: { path: originalKey } });
+      report.purged.media += count;
+    }
+
+    report.purged.files++;
+    report.purged.bytes += object.size;
+  }
+
+  // Storage keys still pointed at by article, user and category images (and inline article content)
+  private static async getReferencedKeys(): Promise<Set<string>> {
+    const [articles, users, categories] = await Promise.all([
+      prisma.article.findMany({ where: { image: { not: null } }, select: { image: true } }),
+      prisma.user.findMany({ where: { image: { not: null } }, select: { image: true } }),
+      prisma.category.findMany({ where: { image: { not: null } }, select: { image: true } }),
+    ]);
+
+    const keys = new Set<string>();
+    const addUrl = (url: string | null) => {
+      const key = url ? this.toStorageKey(url) : null;
+      if (key) {
+        keys.add(key);
+      }
+    };
+
+    [...articles, ...users, ...categories].forEach((item) => addUrl(item.image));
+
+    // Editors paste uploaded images into the body, which getUsage also treats as a reference
+    let cursor: string | undefined;
+    do {
+      const batch = await prisma.article.findMany({
+        select: { id: true, content: true },
+        orderBy: { id: 'asc' },
+        take: CONTENT_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      batch.forEach((article) => this.extractUrls(article.content).forEach(addUrl));
+      cursor = batch.length === CONTENT_BATCH_SIZE ? batch[batch.length - 1].id : undefined;
+    } while (cursor);
+
+    // Variants live and die with their original
+    const media = await prisma.media.findMany({ select: { path: true, variants: true } });
+    for (const item of media) {
+      if (keys.has(item.path)) {
+        Object.values((item.variants as ImageVariants | null) || {}).forEach((variant) => {
+          if (variant?.path) {
+            keys.add(variant.path);
+          }
+        });
+      }
+    }
+
+    return keys;
+  }
+
+  private static extractUrls(content: string): string[] {
+    const publicBase = this.getPublicBase();
+    const pattern = /(?:https?:\/\/[^\s"'()<>]+|\/uploads\/[^\s"'()<>]+)/g;
+
+    return (content.match(pattern) || []).filter(
+      (url) => url.includes('/uploads/') || (!!publicBase && url.startsWith(publicBase))
+    );
+  }
+
+  // "/uploads/<key>", "https://host/uploads/<key>" or "<cdn or bucket url>/<key>" -> "<key>"
+  private static toStorageKey(url: string): string | null {
+    const clean = url.split(/[?#]/)[0];
+    const publicBase = this.getPublicBase();
+
+    if (publicBase && clean.startsWith(publicBase)) {
+      return safeDecode(clean.slice(publicBase.length));
+    }
+
+    const index = clean.indexOf('/uploads/');
+    return index === -1 ? null : safeDecode(clean.slice(index + '/uploads/'.length));
+  }
+
+  // Prefix the storage driver puts in front of keys when it is not a local "/uploads/" path
+  private static getPublicBase(): string | null {
+    const base = getStorage().getPublicUrl('_').slice(0, -1);
+    return base.startsWith('/') ? null : base;
+  }
+
+  private static recordError(report: UploadCleanupReport, key: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error('Upload cleanup failed for file', { key, error: message });
+
+    if (report.errors.length < MAX_REPORTED_ERRORS) {
+      report.errors.push(`${key}: ${message}`);
+    }
+  }
+}
+
+// Periodic sweep, started after the database connects
+export const startUploadCleanupJob = () => {
+  const sweep = async () => {
+    try {
+      // Only one replica sweeps at a time
+      await withLock('upload-cleanup', 60 * 60 * 1000, () => UploadCleanupService.run());
+    } catch (error) {
+      logger.error('Upload cleanup error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  // Give startup a minute before the first full scan
+  setTimeout(sweep, 60 * 1000);
+  setInterval(sweep, env.UPLOAD_CLEANUP_INTERVAL);
+};
+
+export default UploadCleanupService;
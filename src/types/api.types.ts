@@ -1,4 +1,5 @@
 import { User, Article, Category, Tag, Comment, Like, Bookmark, ReadHistory, Notification, Language, Role, Provider } from '@prisma/client';
+import type { ArticleCard } from '../utils/articleSelect';
 
 // Base API Response types
 export interface ApiResponse<T = any> {
@@ -455,19 +456,27 @@ export interface RateLimitInfo {
 }
 
 // Trending types
+export type TrendDirection = 'up' | 'down' | 'stable';
+
+export interface TrendingArticle extends ArticleCard {
+  trendingScore: number | null;
+  trendingPinned: boolean | null;
+}
+
+// Response of GET /api/trending; directions compare the last 24 hours with the 24 hours before
 export interface TrendingData {
-  articles: ArticleWithRelations[];
+  articles: TrendingArticle[];
   categories: Array<{
     name: string;
     slug: string;
     articleCount: number;
-    trend: 'up' | 'down' | 'stable';
+    trend: TrendDirection;
   }>;
   tags: Array<{
     name: string;
     slug: string;
     usage: number;
-    trend: 'up' | 'down' | 'stable';
+    trend: TrendDirection;
   }>;
   authors: Array<{
     name: string;
@@ -486,13 +495,28 @@ export interface RecommendationParams {
   categories?: string[];
 }
 
+export type RecommendationReason =
+  | 'category_preference'
+  | 'reading_history'
+  | 'liked_similar'
+  | 'following'
+  | 'recent'
+  | 'popular'
+  | 'trending';
+
+export interface RecommendedArticle extends ArticleCard {
+  score: number;
+}
+
+// Response of GET /api/articles/recommended; each reason carries its share of the article's score
 export interface RecommendationResult {
-  articles: ArticleWithRelations[];
+  articles: RecommendedArticle[];
   reasons: Array<{
     articleId: string;
-    reason: 'category_preference' | 'reading_history' | 'popular' | 'trending';
+    reason: RecommendationReason;
     score: number;
   }>;
+  coldStart: boolean;
   refreshedAt: Date;
 }
 
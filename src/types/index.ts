@@ -5,6 +5,8 @@ import {
     Language as PrismaLanguageEnum,
     Role as PrismaRoleEnum,
     Provider as PrismaProviderEnum,
+    ArticleStatus as PrismaArticleStatusEnum,
+    ContributorRole as PrismaContributorRoleEnum,
     Preference,
     Article as PrismaArticle,
     Category as PrismaCategory,
@@ -30,12 +32,15 @@ export type User = PrismaClientUser & {
 // AuthRequest extends Express Request with optional user
 export interface AuthRequest extends Request {
   user?: User;
+  sessionId?: string; // Session the access token was issued for
 }
 
 // Re-export enums for convenience
 export { PrismaLanguageEnum as Language };
 export { PrismaRoleEnum as Role };
 export { PrismaProviderEnum as Provider };
+export { PrismaArticleStatusEnum as ArticleStatus };
+export { PrismaContributorRoleEnum as ContributorRole };
 
 // Enhanced Article type with external content handling
 export interface Article extends Omit<PrismaArticle, 'tagIds'> {
@@ -149,7 +154,7 @@ export interface ArticleCreateInputDto {
   language?: PrismaLanguageEnum;
   isBreaking?: boolean;
   isTrending?: boolean;
-  published?: boolean;
+  status?: PrismaArticleStatusEnum; // Honoured for editors/admins (DRAFT or PUBLISHED)
   source?: string | null;
   sourceUrl?: string | null;
 }
@@ -164,11 +169,23 @@ export interface ArticleUpdateInputDto {
   language?: PrismaLanguageEnum;
   isBreaking?: boolean;
   isTrending?: boolean;
-  published?: boolean;
   source?: string | null;
   sourceUrl?: string | null;
 }
 
+export interface ArticleStatusUpdateDto {
+  status: PrismaArticleStatusEnum;
+  comment?: string;
+  scheduledAt?: string;
+}
+
+export interface ArticleContributorsUpdateDto {
+  contributors: Array<{
+    userId: string;
+    role: PrismaContributorRoleEnum;
+  }>;
+}
+
 export interface CommentInput {
   content: string;
   parentId?: string | null; 
@@ -191,6 +208,7 @@ export interface PreferenceInput {
   notifications?: boolean;
   darkMode?: boolean;
   emailUpdates?: boolean;
+  activityPrivate?: boolean;
 }
 
 // API Response Types
@@ -0,0 +1,48 @@
+import { Prisma } from '@prisma/client';
+import { visibleComment } from './softDelete';
+
+// Fields behind the article card in lists (home page, feed); keep list endpoints on the same shape
+export const articleCardSelect = {
+  id: true,
+  title: true,
+  slug: true,
+  summary: true,
+  image: true,
+  source: true,
+  isExternal: true,
+  isBreaking: true,
+  isTrending: true,
+  publishedAt: true,
+  viewCount: true,
+  shareCount: true,
+  author: {
+    select: {
+      id: true,
+      name: true,
+      image: true,
+    },
+  },
+  category: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  tags: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  _count: {
+    select: {
+      likes: true,
+      comments: { where: visibleComment },
+      bookmarks: true,
+    },
+  },
+} as const;
+
+export type ArticleCard = Prisma.ArticleGetPayload<{ select: typeof articleCardSelect }>;
@@ -114,6 +114,15 @@ export const initializeCache = (): void => {
       logger.info('Redis is ready');
     });
 
+    // lazyConnect defers the connection until the first command, but commands
+    // are only sent once useRedis is set by the connect event, so open it here
+    redis.connect().catch((error: Error) => {
+      useRedis = false;
+      logger.warn('Redis connect failed, using memory cache fallback', {
+        error: error.message,
+      });
+    });
+
   } catch (error) {
     useRedis = false;
     logger.warn('Redis initialization failed, using memory cache fallback', { error });
@@ -354,21 +363,32 @@ export const cacheGet = async <T = any>(key: string): Promise<T | null> => {
   }
 };
 
-// Cache increment operation
+// Cache increment operation; ttlSeconds starts a fixed window on the first increment
 export const cacheIncrement = async (
   key: string,
-  increment: number = 1
+  increment: number = 1,
+  ttlSeconds?: number
 ): Promise<number> => {
   if (!useRedis || !redis) {
     // Memory cache increment
+    const existing = memoryCache.get(key);
     const current = memoryGet(key) || 0;
     const newValue = (typeof current === 'number' ? current : 0) + increment;
-    memorySet(key, newValue, 3600); // Default 1 hour TTL
+
+    if (ttlSeconds && existing && existing.expiry >= Date.now()) {
+      memoryCache.set(key, { value: newValue, expiry: existing.expiry });
+    } else {
+      memorySet(key, newValue, ttlSeconds || 3600); // Default 1 hour TTL
+    }
     return newValue;
   }
 
   try {
-    return await redis.incrby(key, increment);
+    const value = await redis.incrby(key, increment);
+    if (ttlSeconds && value === increment) {
+      await redis.expire(key, ttlSeconds);
+    }
+    return value;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     logger.error('Cache increment error', { error: errorMessage, key });
@@ -411,6 +431,57 @@ export const cacheGetWithTTL = async (key: string): Promise<{ value: any; ttl: n
   }
 };
 
+// Revoked access tokens, keyed by jti
+const REVOKED_TOKEN_PREFIX = 'revoked:jti:';
+
+export const revokeTokenId = async (jti: string, ttlSeconds: number): Promise<void> => {
+  if (ttlSeconds <= 0) {
+    return; // Already expired, nothing to revoke
+  }
+
+  const key = `${REVOKED_TOKEN_PREFIX}${jti}`;
+
+  if (useRedis && redis) {
+    try {
+      await redis.set(key, '1', 'EX', ttlSeconds);
+      return;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn('Token revocation not stored in Redis, using memory', { error: errorMessage });
+    }
+  }
+
+  // Without Redis every logout lands here, so drop expired revocations instead of waiting for the sweep
+  const now = Date.now();
+  for (const [storedKey, item] of memoryCache.entries()) {
+    if (storedKey.startsWith(REVOKED_TOKEN_PREFIX) && item.expiry < now) {
+      memoryCache.delete(storedKey);
+    }
+  }
+
+  memorySet(key, true, ttlSeconds);
+};
+
+export const isTokenIdRevoked = async (jti: string): Promise<boolean> => {
+  const key = `${REVOKED_TOKEN_PREFIX}${jti}`;
+
+  // Memory holds revocations written while Redis was unavailable
+  if (memoryGet(key)) {
+    return true;
+  }
+
+  if (useRedis && redis) {
+    try {
+      return (await redis.exists(key)) === 1;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error('Token revocation lookup failed', { error: errorMessage });
+    }
+  }
+
+  return false;
+};
+
 // Clear all cache
 export const clearCache = async (): Promise<void> => {
   try {
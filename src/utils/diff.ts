@@ -0,0 +1,148 @@
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  type: DiffOperation;
+  value: string;
+}
+
+export interface WordDiff {
+  parts: DiffPart[];
+  insertedWords: number;
+  deletedWords: number;
+  changed: boolean;
+}
+
+// Beyond this many edits the texts are treated as rewritten (keeps the Myers trace bounded)
+const MAX_EDIT_DISTANCE = 2000;
+
+// Words and the whitespace between them, so joining the tokens gives back the original text
+export const tokenizeWords = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+// Myers O(ND) shortest edit script over two token arrays; null when the distance exceeds maxD
+const myers = (a: string[], b: string[], maxD: number): DiffPart[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const limit = Math.min(n + m, maxD);
+  const offset = limit + 1;
+  const v = new Int32Array(2 * limit + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= limit; d++) {
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset);
+      }
+    }
+  }
+
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[], offset: number): DiffPart[] => {
+  const parts: DiffPart[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      parts.push({ type: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        parts.push({ type: 'insert', value: b[y - 1] });
+      } else {
+        parts.push({ type: 'delete', value: a[x - 1] });
+      }
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return parts.reverse();
+};
+
+// Join runs of the same operation into single parts
+const mergeParts = (parts: DiffPart[]): DiffPart[] =>
+  parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) {
+      last.value += part.value;
+    } else if (part.value) {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+
+const countWords = (parts: DiffPart[], type: DiffOperation): number =>
+  parts
+    .filter((part) => part.type === type)
+    .reduce((total, part) => total + (part.value.match(/[^\s]+/g)?.length || 0), 0);
+
+// Word-level diff of two texts
+export const diffWords = (oldText: string, newText: string): WordDiff => {
+  const a = tokenizeWords(oldText || '');
+  const b = tokenizeWords(newText || '');
+
+  // Common prefix and suffix do not need the full algorithm
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle =
+    myers(middleA, middleB, MAX_EDIT_DISTANCE) || [
+      { type: 'delete' as const, value: middleA.join('') },
+      { type: 'insert' as const, value: middleB.join('') },
+    ];
+
+  const parts = mergeParts([
+    { type: 'equal', value: a.slice(0, start).join('') },
+    ...middle,
+    { type: 'equal', value: a.slice(endA).join('') },
+  ]);
+
+  const insertedWords = countWords(parts, 'insert');
+  const deletedWords = countWords(parts, 'delete');
+
+  return {
+    parts,
+    insertedWords,
+    deletedWords,
+    changed: parts.some((part) => part.type !== 'equal'),
+  };
+};
@@ -1,87 +1,187 @@
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { Response } from 'express';
 import { env } from '../config/env';
 import { Role } from '@prisma/client';
-
-// Simple token blacklist storage (in production, use Redis)
-const blacklistedTokens = new Set<string>();
-
-// Auto cleanup expired tokens every hour
-setInterval(() => {
-  // In a real application, you'd want to clean up based on token expiry
-  // For now, we'll clear the set if it gets too large
-  if (blacklistedTokens.size > 10000) {
-    blacklistedTokens.clear();
-  }
-}, 60 * 60 * 1000); // 1 hour
+import { revokeTokenId, isTokenIdRevoked } from './cache';
+import { hashToken } from './token';
 
 // Definisikan tipe untuk payload JWT Anda
 export interface JwtCustomPayload { 
   userId: string;
   role?: Role;
+  sid?: string;
   iat?: number;
   exp?: number;
   [key: string]: any;
 }
 
-// Generate JWT
-export const generateToken = (userId: string, userRole?: Role): string => {
+// Generate short-lived access token; sessionId ties it to a revocable Session
+export const generateToken = (userId: string, userRole?: Role, sessionId?: string): string => {
   const payload: JwtCustomPayload = { 
     userId,
   };
   if (userRole) {
     payload.role = userRole;
   }
+  if (sessionId) {
+    payload.sid = sessionId;
+  }
   
-  const expiresInMilliseconds = env.COOKIE_EXPIRES;
-  const expiresInSeconds = Math.floor(expiresInMilliseconds / 1000);
+  const expiresInSeconds = Math.floor(env.ACCESS_TOKEN_EXPIRES / 1000);
   
   return jwt.sign(payload, env.JWT_SECRET, {
     expiresIn: `${expiresInSeconds}s`,
+    jwtid: crypto.randomUUID(),
   });
 };
 
-// Verify JWT
-export const verifyToken = (token: string): JwtCustomPayload | null => {
+// Email verification token - bound to the address so changing it invalidates old links
+export const generateEmailVerificationToken = (userId: string, email: string): string => {
+  return jwt.sign(
+    { userId, email, purpose: 'email_verification' },
+    env.JWT_SECRET,
+    { expiresIn: `${Math.floor(env.EMAIL_VERIFICATION_EXPIRES / 1000)}s` }
+  );
+};
+
+export const verifyEmailVerificationToken = (token: string): { userId: string; email: string } | null => {
   try {
-    // Check if token is blacklisted
-    if (blacklistedTokens.has(token)) {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as JwtCustomPayload;
+    if (decoded.purpose !== 'email_verification' || !decoded.userId || !decoded.email) {
       return null;
     }
-    
-    return jwt.verify(token, env.JWT_SECRET) as JwtCustomPayload;
+    return { userId: decoded.userId, email: decoded.email };
   } catch (error) {
     return null;
   }
 };
 
-// Blacklist token - EXPORTED
-export const blacklistToken = (token: string): void => {
-  blacklistedTokens.add(token);
-  
-  // Optional: Remove token after its natural expiry
-  // In production, use Redis with TTL for better performance
-  setTimeout(() => {
-    blacklistedTokens.delete(token);
-  }, env.COOKIE_EXPIRES);
+// Short-lived token proving the password step passed; exchanged for a session at /login/2fa
+export const generateTwoFactorChallengeToken = (userId: string, rememberMe: boolean): string => {
+  return jwt.sign(
+    { userId, rememberMe, purpose: '2fa_challenge' },
+    env.JWT_SECRET,
+    {
+      expiresIn: `${Math.floor(env.TWO_FACTOR_CHALLENGE_EXPIRES / 1000)}s`,
+      jwtid: crypto.randomUUID(),
+    }
+  );
+};
+
+export const verifyTwoFactorChallengeToken = async (
+  token: string
+): Promise<{ userId: string; rememberMe: boolean; jti: string; exp: number } | null> => {
+  try {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as JwtCustomPayload;
+    if (decoded.purpose !== '2fa_challenge' || !decoded.userId || !decoded.jti || !decoded.exp) {
+      return null;
+    }
+    if (await isTokenIdRevoked(decoded.jti)) {
+      return null;
+    }
+    return {
+      userId: decoded.userId,
+      rememberMe: decoded.rememberMe === true,
+      jti: decoded.jti,
+      exp: decoded.exp,
+    };
+  } catch (error) {
+    return null;
+  }
+};
+
+// Tokens issued before jti was added are keyed by their hash
+const getRevocationId = (token: string, payload: JwtCustomPayload | null): string => {
+  return payload?.jti || hashToken(token);
+};
+
+// Verify JWT (signature, expiry and revocation)
+export const verifyToken = async (token: string): Promise<JwtCustomPayload | null> => {
+  try {
+    const decoded = jwt.verify(token, env.JWT_SECRET) as JwtCustomPayload;
+
+    // Purpose-bound tokens (e.g. email verification) are never access tokens
+    if (decoded.purpose) {
+      return null;
+    }
+
+    if (await isTokenIdRevoked(getRevocationId(token, decoded))) {
+      return null;
+    }
+
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Revoke a verified token until it would have expired anyway - EXPORTED
+// Only call with the payload from verifyToken: unverified tokens could pick their own lifetime
+export const blacklistToken = async (token: string, payload: JwtCustomPayload): Promise<void> => {
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  const maxSeconds = Math.floor(env.ACCESS_TOKEN_EXPIRES / 1000);
+  const ttlSeconds = payload.exp ? Math.min(payload.exp - nowSeconds, maxSeconds) : maxSeconds;
+
+  await revokeTokenId(getRevocationId(token, payload), ttlSeconds);
 };
 
 // Check if token is blacklisted - EXPORTED
-export const isTokenBlacklisted = (token: string): boolean => {
-  return blacklistedTokens.has(token);
+export const isTokenBlacklisted = async (token: string): Promise<boolean> => {
+  const payload = jwt.decode(token) as JwtCustomPayload | null;
+  return isTokenIdRevoked(getRevocationId(token, payload));
 };
 
-// Get blacklist size (for debugging/monitoring)
-export const getBlacklistSize = (): number => {
-  return blacklistedTokens.size;
+// Refresh cookie is only sent to the auth routes
+export const REFRESH_COOKIE_PATH = '/api/auth';
+
+// Set access and refresh cookies after login or rotation - EXPORTED
+export const setAuthCookies = (
+  res: Response,
+  tokens: { accessToken: string; refreshToken: string; refreshExpiresAt: Date }
+): void => {
+  const baseOptions = {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    sameSite: env.NODE_ENV === 'production' ? 'none' as const : 'lax' as const,
+  };
+
+  res.cookie('token', tokens.accessToken, {
+    ...baseOptions,
+    maxAge: env.ACCESS_TOKEN_EXPIRES,
+    path: '/',
+  });
+
+  res.cookie('refreshToken', tokens.refreshToken, {
+    ...baseOptions,
+    expires: tokens.refreshExpiresAt,
+    path: REFRESH_COOKIE_PATH,
+  });
 };
 
-// Clear all blacklisted tokens (admin function)
-export const clearBlacklist = (): void => {
-  blacklistedTokens.clear();
+// OAuth logins that still need a second factor carry the challenge here, never in the redirect URL
+export const TWO_FACTOR_CHALLENGE_COOKIE = 'twoFactorChallenge';
+
+const twoFactorChallengeCookieOptions = () => ({
+  httpOnly: true,
+  signed: true,
+  secure: env.NODE_ENV === 'production',
+  sameSite: env.NODE_ENV === 'production' ? 'none' as const : 'lax' as const,
+  path: REFRESH_COOKIE_PATH,
+});
+
+export const setTwoFactorChallengeCookie = (res: Response, challengeToken: string): void => {
+  res.cookie(TWO_FACTOR_CHALLENGE_COOKIE, challengeToken, {
+    ...twoFactorChallengeCookieOptions(),
+    maxAge: env.TWO_FACTOR_CHALLENGE_EXPIRES,
+  });
 };
 
-// Clear token cookie - EXPORTED
+export const clearTwoFactorChallengeCookie = (res: Response): void => {
+  res.clearCookie(TWO_FACTOR_CHALLENGE_COOKIE, twoFactorChallengeCookieOptions());
+};
+
+// Clear token cookies - EXPORTED
 export const clearToken = (res: Response): void => {
   res.cookie('token', '', {
     httpOnly: true,
@@ -90,4 +190,11 @@ export const clearToken = (res: Response): void => {
     sameSite: env.NODE_ENV === 'production' ? 'lax' : 'none',
     path: '/',
   });
+  res.cookie('refreshToken', '', {
+    httpOnly: true,
+    secure: env.NODE_ENV === 'production',
+    expires: new Date(0),
+    sameSite: env.NODE_ENV === 'production' ? 'lax' : 'none',
+    path: REFRESH_COOKIE_PATH,
+  });
 };
\ No newline at end of file
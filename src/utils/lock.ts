@@ -0,0 +1,72 @@
+import crypto from 'crypto';
+import { RedisConfig } from '../config/redis';
+import { logger } from './logger';
+
+const LOCK_PREFIX = 'lock:';
+
+// Only delete the key if it still holds our token (the lock may have expired and been taken over)
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+else
+  return 0
+end
+`;
+
+// Fallback for single-instance deployments without Redis
+const localLocks = new Map<string, number>();
+
+const acquire = async (key: string, token: string, ttlMs: number): Promise<boolean> => {
+  const redis = RedisConfig.getConnectionStatus() ? RedisConfig.getInstance() : null;
+
+  if (redis) {
+    const result = await redis.set(key, token, 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  }
+
+  const expiresAt = localLocks.get(key);
+  if (expiresAt && expiresAt > Date.now()) {
+    return false;
+  }
+
+  localLocks.set(key, Date.now() + ttlMs);
+  return true;
+};
+
+const release = async (key: string, token: string): Promise<void> => {
+  const redis = RedisConfig.getConnectionStatus() ? RedisConfig.getInstance() : null;
+
+  if (redis) {
+    await redis.eval(RELEASE_SCRIPT, 1, key, token);
+    return;
+  }
+
+  localLocks.delete(key);
+};
+
+// Run fn while holding a cluster-wide lock; returns null without running it if another holder has the lock.
+// ttlMs should comfortably exceed the expected run time - the lock is not extended.
+export const withLock = async <T>(
+  name: string,
+  ttlMs: number,
+  fn: () => Promise<T>
+): Promise<T | null> => {
+  const key = `${LOCK_PREFIX}${name}`;
+  const token = crypto.randomBytes(16).toString('hex');
+
+  if (!(await acquire(key, token, ttlMs))) {
+    logger.debug('Lock held elsewhere, skipping', { lock: name });
+    return null;
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await release(key, token).catch((error) => {
+      logger.warn('Failed to release lock', {
+        lock: name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    });
+  }
+};
@@ -0,0 +1,19 @@
+// Soft-deleted rows carry deletedAt/deletedBy; live rows do not have the fields at all.
+// MongoDB treats a missing field and null differently, so filter on isSet and restore with unset.
+
+export const notDeleted = { deletedAt: { isSet: false } };
+
+// Comments shown publicly: a deleted author's comments disappear along with the rest of their content
+export const visibleComment = { ...notDeleted, user: notDeleted };
+
+export const onlyDeleted = { deletedAt: { isSet: true } };
+
+export const softDeleteData = (deletedBy: string) => ({
+  deletedAt: new Date(),
+  deletedBy,
+});
+
+export const restoreData = {
+  deletedAt: { unset: true },
+  deletedBy: { unset: true },
+};
@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+// Random URL-safe token for links sent by email
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+// Only the hash is stored, so a database leak does not expose usable tokens
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
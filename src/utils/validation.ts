@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { Language, Role, Provider } from '@prisma/client';
+import { Language, Role, Provider, ArticleStatus, ContributorRole } from '@prisma/client';
 import { logger } from './logger'; // Import logger yang hilang
 
 // Base validation schemas
@@ -78,6 +78,15 @@ export const profileUpdateSchema = z.object({
   image: z.string().url('Invalid image URL').optional().nullable(),
 });
 
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid or expired reset token'),
+  password: passwordSchema,
+});
+
 export const passwordUpdateSchema = z.object({
   currentPassword: z.string().min(1, 'Current password is required'),
   newPassword: passwordSchema,
@@ -101,7 +110,6 @@ export const articleCreateSchema = z.object({
   categoryId: objectIdSchema.optional().nullable(),
   tagIds: z.array(objectIdSchema).max(10, 'Maximum 10 tags allowed').optional(),
   language: z.nativeEnum(Language).optional().default(Language.ENGLISH),
-  published: z.boolean().optional().default(true),
 });
 
 export const articleUpdateSchema = articleCreateSchema.partial();
@@ -147,6 +155,7 @@ export const preferenceSchema = z.object({
   notifications: z.boolean().optional(),
   darkMode: z.boolean().optional(),
   emailUpdates: z.boolean().optional(),
+  activityPrivate: z.boolean().optional(),
 });
 
 // Admin validation schemas
@@ -155,9 +164,24 @@ export const userRoleUpdateSchema = z.object({
 });
 
 export const articleStatusUpdateSchema = z.object({
-  isTrending: z.boolean().optional(),
-  isBreaking: z.boolean().optional(),
-  published: z.boolean().optional(),
+  status: z.nativeEnum(ArticleStatus),
+  comment: z.string().trim().min(1).max(2000, 'Comment too long').optional(),
+  scheduledAt: z.coerce.date().optional(),
+});
+
+export const articleReviewCommentSchema = z.object({
+  comment: z.string().trim().min(1, 'Comment is required').max(2000, 'Comment too long'),
+});
+
+export const articleContributorsSchema = z.object({
+  contributors: z
+    .array(
+      z.object({
+        userId: objectIdSchema,
+        role: z.nativeEnum(ContributorRole),
+      })
+    )
+    .max(20, 'Maximum 20 contributors allowed'),
 });
 
 // Search validation schema